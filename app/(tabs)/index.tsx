@@ -1,41 +1,94 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { progressService } from '@/services/firestore';
-import { Progress } from '@/types';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import { ActiveRecovery, BACKLOG_DAY_OPTIONS, BacklogStatus } from '@/services/backlog';
+import { addStudyDays } from '@/services/dayBoundary';
 import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function HomeScreen() {
-  const [dueQuestions, setDueQuestions] = useState<Progress[]>([]);
+  const repositories = useRepositories();
+  const services = useServices();
+  const [dueCount, setDueCount] = useState(0);
+  const [streak, setStreak] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [backlog, setBacklog] = useState<BacklogStatus | null>(null);
+  const [recovery, setRecovery] = useState<ActiveRecovery | null>(null);
 
   // Mock user ID for development - replace with actual auth
   const userId = 'demo-user';
 
-  useEffect(() => {
-    loadDueQuestions();
-  }, []);
-
-  const loadDueQuestions = async () => {
+  const loadDueQuestions = useCallback(async () => {
     try {
       setLoading(true);
-      const questions = await progressService.getDueQuestions(userId);
-      setDueQuestions(questions);
+      // Everything due before the next study day starts, from this device first
+      const until = addStudyDays(new Date(), 1);
+      setDueCount((await repositories.progress.getDueQuestions(userId, until)).length);
+
+      const [, studyStreak] = await Promise.all([
+        repositories.sync.refresh(userId).catch(error => console.warn('Showing due cards on this device:', error)),
+        services.streaks.getStreak(userId)
+      ]);
+      setDueCount(await repositories.progress.countDueQuestions(userId, until));
+      setStreak(studyStreak.current);
+
+      // Offer to spread out a large overdue pile unless that's already underway
+      const activeRecovery = await services.backlog.getRecovery(userId);
+      setRecovery(activeRecovery);
+      setBacklog(activeRecovery ? null : await services.backlog.getStatus(userId));
     } catch (error) {
       console.error('Error loading due questions:', error);
       Alert.alert('Error', 'Failed to load review questions');
     } finally {
       setLoading(false);
     }
+  }, [repositories, services]);
+
+  useEffect(() => {
+    loadDueQuestions();
+  }, [loadDueQuestions]);
+
+  const startRecovery = () => {
+    if (!backlog) return;
+
+    const spread = async (days: number) => {
+      try {
+        await services.backlog.startRecovery(userId, days);
+        loadDueQuestions();
+      } catch (error) {
+        console.error('Error starting backlog recovery:', error);
+        Alert.alert('Error', 'Failed to spread out overdue cards');
+      }
+    };
+
+    Alert.alert(
+      'Catch Up Gradually',
+      `Spread ${backlog.overdueCount} overdue cards over how many days? ` +
+        'Cards you are most likely to forget come first, and new cards pause until you have caught up.',
+      [
+        ...BACKLOG_DAY_OPTIONS.map(days => ({
+          text: days === backlog.suggestedDays ? `${days} days (suggested)` : `${days} days`,
+          onPress: () => spread(days)
+        })),
+        { text: 'Cancel', style: 'cancel' as const }
+      ]
+    );
   };
 
-  const startReviewSession = () => {
-    if (dueQuestions.length === 0) {
-      Alert.alert('No Reviews', 'You have no questions due for review right now!');
-      return;
+  const endRecovery = async () => {
+    try {
+      await services.backlog.endRecovery(userId);
+      loadDueQuestions();
+    } catch (error) {
+      console.error('Error ending backlog recovery:', error);
+      Alert.alert('Error', 'Failed to end backlog recovery');
     }
+  };
 
+  const startReviewSession = () => {
+    // Sessions also introduce new cards, so start one even when nothing is due
     router.push('/review-session?sessionType=spaced');
   };
 
@@ -59,9 +112,9 @@ export default function HomeScreen() {
       <ThemedView style={styles.statsContainer}>
         <ThemedView style={styles.statCard}>
           <ThemedText type="subtitle" style={styles.statNumber}>
-            {dueQuestions.length}
+            {dueCount}
           </ThemedText>
-          <ThemedText style={styles.statLabel}>Due for Review</ThemedText>
+          <ThemedText style={styles.statLabel}>Due Today</ThemedText>
         </ThemedView>
 
         <ThemedView style={styles.statCard}>
@@ -70,11 +123,39 @@ export default function HomeScreen() {
         </ThemedView>
 
         <ThemedView style={styles.statCard}>
-          <ThemedText type="subtitle" style={styles.statNumber}>0</ThemedText>
+          <ThemedText type="subtitle" style={styles.statNumber}>{streak}</ThemedText>
           <ThemedText style={styles.statLabel}>Streak</ThemedText>
         </ThemedView>
       </ThemedView>
 
+      {backlog?.isHeavy && (
+        <ThemedView style={styles.backlogCard}>
+          <ThemedText style={styles.backlogTitle}>📦 {backlog.overdueCount} overdue cards</ThemedText>
+          <ThemedText style={styles.backlogText}>
+            That&apos;s about {Math.ceil(backlog.overdueCount / backlog.reviewsPerDay)} days of reviews at
+            your usual pace. Spread them out to catch up without a marathon session.
+          </ThemedText>
+          <TouchableOpacity onPress={startRecovery}>
+            <ThemedText style={styles.backlogLink}>Catch Up Gradually</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      )}
+
+      {recovery && (
+        <ThemedView style={styles.backlogCard}>
+          <ThemedText style={styles.backlogTitle}>
+            📦 Catching up: {recovery.remaining} of {recovery.cardCount} cards left
+          </ThemedText>
+          <ThemedText style={styles.backlogText}>
+            New cards are paused until you&apos;re through the backlog, at the latest{' '}
+            {recovery.endsAt.toLocaleDateString()}.
+          </ThemedText>
+          <TouchableOpacity onPress={endRecovery}>
+            <ThemedText style={styles.backlogLink}>Resume New Cards Now</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      )}
+
       <ThemedView style={styles.actionContainer}>
         <TouchableOpacity
           style={[styles.actionButton, styles.primaryButton]}
@@ -85,6 +166,24 @@ export default function HomeScreen() {
           </ThemedText>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={() => router.push('/custom-study')}
+        >
+          <ThemedText style={styles.buttonText}>
+            🎛️ Custom Study
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={() => router.push('/search')}
+        >
+          <ThemedText style={styles.buttonText}>
+            🔍 Search Cards
+          </ThemedText>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.actionButton, styles.secondaryButton]}
           onPress={() => router.push('/(tabs)/topics')}
@@ -155,6 +254,26 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     textAlign: 'center',
   },
+  backlogCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 149, 0, 0.1)',
+    marginBottom: 24,
+  },
+  backlogTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  backlogText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  backlogLink: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   actionContainer: {
     marginBottom: 24,
   },
@@ -1,21 +1,274 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { StyleSheet, ScrollView, TouchableOpacity, Alert, Switch } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { DEFAULT_DECK_OPTIONS, RETENTION_OPTIONS, SCHEDULER_OPTIONS } from '@/constants/DeckPresets';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import {
+  addStudyDays,
+  DayBoundary,
+  DEFAULT_DAY_START_HOUR,
+  getDayBoundary,
+  getDeviceTimezone,
+  setDayBoundary
+} from '@/services/dayBoundary';
+import { RetentionWorkload } from '@/services/forecast';
+import { notificationService } from '@/services/notifications';
+import { simulatorService } from '@/services/simulator';
+import { StudyStreak } from '@/services/streaks';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/services/trash';
+import { ReviewOrder, SchedulerType, Vacation } from '@/types';
+import { router } from 'expo-router';
+
+const REVIEW_ORDER_OPTIONS: { order: ReviewOrder; title: string; description: string }[] = [
+  { order: 'due', title: 'Most Urgent', description: 'Overdue cards first, then those you are most likely to forget' },
+  { order: 'round_robin', title: 'Round Robin', description: 'One card from each topic in turn' },
+  { order: 'weighted', title: 'Weighted', description: 'Topics with a higher priority come up more often' },
+  { order: 'random', title: 'Random', description: 'Shuffle due cards across all topics' },
+  { order: 'hardest_first', title: 'Hardest First', description: 'Cards you find most difficult first' },
+];
+
+const VACATION_START_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'Today' },
+  { days: 1, label: 'Tomorrow' },
+  { days: 3, label: 'In 3 days' },
+  { days: 7, label: 'In a week' },
+];
+
+const TRASH_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
 
 export default function ProfileScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [dailyGoalEnabled, setDailyGoalEnabled] = useState(true);
   const [streakRemindersEnabled, setStreakRemindersEnabled] = useState(true);
+  const [schedulerType, setSchedulerType] = useState<SchedulerType>('sm2');
+  const [optimizing, setOptimizing] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [desiredRetention, setDesiredRetention] = useState(DEFAULT_DECK_OPTIONS.desiredRetention);
+  const [reviewOrder, setReviewOrder] = useState<ReviewOrder>('due');
+  const [workloadEstimates, setWorkloadEstimates] = useState<RetentionWorkload[]>([]);
+  const [dayBoundary, setDayBoundaryState] = useState<DayBoundary>(getDayBoundary());
+  const [streak, setStreak] = useState<StudyStreak>({ current: 0, longest: 0, studiedToday: false });
+  const [vacations, setVacations] = useState<Vacation[]>([]);
+  const [vacationStartsIn, setVacationStartsIn] = useState(1);
+  const [vacationDays, setVacationDays] = useState(7);
+  const [studySeconds, setStudySeconds] = useState(0);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  // Mock user ID for development - replace with actual auth
+  const userId = 'demo-user';
+
+  useEffect(() => {
+    repositories.users.getUser(userId)
+      .then(user => {
+        setSchedulerType(user?.schedulerType ?? 'sm2');
+        setDesiredRetention(user?.desiredRetention ?? DEFAULT_DECK_OPTIONS.desiredRetention);
+        setReviewOrder(user?.reviewOrder ?? 'due');
+        setStudySeconds(user?.studySeconds ?? 0);
+        setTrashRetentionDays(user?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+      })
+      .catch(error => console.error('Error loading user preferences:', error));
+
+    repositories.settings.getSettings(userId)
+      .then(settings => settings && setDayBoundaryState({
+        timezone: settings.timezone || getDeviceTimezone(),
+        dayStartHour: settings.dayStartHour ?? DEFAULT_DAY_START_HOUR
+      }))
+      .catch(error => console.error('Error loading day boundary settings:', error));
+
+    services.streaks.getStreak(userId)
+      .then(setStreak)
+      .catch(error => console.error('Error loading streak:', error));
+
+    services.vacation.getUpcomingVacations(userId)
+      .then(setVacations)
+      .catch(error => console.error('Error loading vacations:', error));
+
+    services.forecast.estimateWorkloadByRetention(userId, RETENTION_OPTIONS)
+      .then(setWorkloadEstimates)
+      .catch(error => console.error('Error estimating workload:', error));
+  }, [repositories, services]);
+
+  const changeScheduler = async (type: SchedulerType) => {
+    const previous = schedulerType;
+    setSchedulerType(type);
+
+    try {
+      await repositories.users.updateUser(userId, { schedulerType: type });
+    } catch (error) {
+      console.error('Error updating scheduler:', error);
+      setSchedulerType(previous);
+      Alert.alert('Error', 'Failed to update scheduler');
+    }
+  };
+
+  const changeDesiredRetention = async (retention: number) => {
+    const previous = desiredRetention;
+    setDesiredRetention(retention);
+
+    try {
+      await repositories.users.updateUser(userId, { desiredRetention: retention });
+    } catch (error) {
+      console.error('Error updating desired retention:', error);
+      setDesiredRetention(previous);
+      Alert.alert('Error', 'Failed to update target recall');
+    }
+  };
+
+  const changeReviewOrder = async (order: ReviewOrder) => {
+    const previous = reviewOrder;
+    setReviewOrder(order);
+
+    try {
+      await repositories.users.updateUser(userId, { reviewOrder: order });
+    } catch (error) {
+      console.error('Error updating review order:', error);
+      setReviewOrder(previous);
+      Alert.alert('Error', 'Failed to update review order');
+    }
+  };
+
+  const changeTrashRetention = async (days: number) => {
+    const previous = trashRetentionDays;
+    setTrashRetentionDays(days);
+
+    try {
+      await repositories.users.updateUser(userId, { trashRetentionDays: days });
+    } catch (error) {
+      console.error('Error updating trash retention:', error);
+      setTrashRetentionDays(previous);
+      Alert.alert('Error', 'Failed to update trash settings');
+    }
+  };
+
+  const planVacation = async () => {
+    try {
+      const vacation = await services.vacation.scheduleVacation(
+        userId,
+        addStudyDays(new Date(), vacationStartsIn),
+        vacationDays
+      );
+      setVacations(await services.vacation.getUpcomingVacations(userId));
+      await notificationService.rescheduleReminders(userId);
+
+      const preReviewed = vacation.shifts.filter(shift => shift.preReviewed).length;
+      const postponed = vacation.shifts.length - preReviewed;
+      Alert.alert(
+        'Vacation Planned',
+        `Reminders are paused until ${vacation.endsAt.toLocaleDateString()}. ` +
+          `${postponed} reviews were moved to after you're back` +
+          (preReviewed > 0 ? ` and ${preReviewed} are due now so you can review them before you leave.` : '.')
+      );
+    } catch (error: unknown) {
+      console.error('Error planning vacation:', error);
+      Alert.alert('Error', (error instanceof Error && error.message) || 'Failed to plan vacation');
+    }
+  };
+
+  const cancelVacation = (vacation: Vacation) => {
+    Alert.alert(
+      'Cancel Vacation',
+      'Reviews that were moved and not answered since go back to their original dates.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Vacation',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await services.vacation.cancelVacation(vacation);
+              setVacations(vacations.filter(v => v.id !== vacation.id));
+              await notificationService.rescheduleReminders(userId);
+            } catch (error) {
+              console.error('Error cancelling vacation:', error);
+              Alert.alert('Error', 'Failed to cancel vacation');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const changeDayBoundary = async (updates: Partial<DayBoundary>) => {
+    const previous = dayBoundary;
+    const next = { ...dayBoundary, ...updates };
+    setDayBoundaryState(next);
+
+    try {
+      await repositories.settings.updateSettings(userId, next);
+      setDayBoundary(next);
+    } catch (error) {
+      console.error('Error updating day boundary:', error);
+      setDayBoundaryState(previous);
+      Alert.alert('Error', 'Failed to update study day settings');
+    }
+  };
 
   // Mock user data - replace with actual auth
   const userData = {
     displayName: 'Demo User',
     email: 'demo@cognifai.com',
     joinDate: 'January 2024',
-    totalStudyTime: 0,
-    currentStreak: 0,
-    longestStreak: 0,
+    totalStudyTime: Math.round(studySeconds / 60),
+    currentStreak: streak.current,
+    longestStreak: streak.longest,
+  };
+
+  const optimizeParameters = async () => {
+    try {
+      setOptimizing(true);
+      const result = await services.optimizer.optimize(userId);
+      const percent = (value: number) => `${Math.round(value * 100)}%`;
+      const usingFsrs = schedulerType === 'fsrs';
+
+      const applyWeights = async (switchToFsrs: boolean) => {
+        try {
+          await services.optimizer.acceptWeights(userId, result.weights, switchToFsrs);
+          if (switchToFsrs) setSchedulerType('fsrs');
+          Alert.alert(
+            'Success',
+            usingFsrs || switchToFsrs
+              ? 'Your personalized parameters are now in use'
+              : 'Your personalized parameters are saved and will be used if you switch to FSRS'
+          );
+        } catch (error) {
+          console.error('Error saving parameters:', error);
+          Alert.alert('Error', 'Failed to save parameters');
+        }
+      };
+
+      Alert.alert(
+        'Optimized Parameters',
+        `Based on ${result.reviewCount} reviews (actual recall ${percent(result.actualRetention)}).\n\n` +
+        `Predicted recall: ${percent(result.before.predictedRetention)} → ${percent(result.after.predictedRetention)}\n` +
+        `Prediction loss: ${result.before.logLoss.toFixed(3)} → ${result.after.logLoss.toFixed(3)}\n\n` +
+        (usingFsrs
+          ? 'Use the new parameters for FSRS scheduling?'
+          : 'These parameters only apply to the FSRS scheduler, and you are using SM-2. Switch to FSRS to use them?'),
+        usingFsrs
+          ? [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Apply', onPress: () => applyWeights(false) }
+            ]
+          : [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Save Only', onPress: () => applyWeights(false) },
+              { text: 'Switch to FSRS', onPress: () => applyWeights(true) }
+            ]
+      );
+    } catch (error: unknown) {
+      console.error('Error optimizing parameters:', error);
+      Alert.alert('Error', (error instanceof Error && error.message) || 'Failed to optimize parameters');
+    } finally {
+      setOptimizing(false);
+    }
   };
 
   const testFirebaseConnection = async () => {
@@ -43,6 +296,32 @@ export default function ProfileScreen() {
     );
   };
 
+  const simulateSchedulers = async () => {
+    try {
+      setSimulating(true);
+      const reports = await simulatorService.compare([
+        { schedulerType: 'sm2', days: 90, cardCount: 200, learners: 3 },
+        { schedulerType: 'fsrs', days: 90, cardCount: 200, learners: 3 },
+      ]);
+      const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+      Alert.alert(
+        'Simulation (90 days, 200 cards)',
+        reports.map(report =>
+          `${report.config.schedulerType === 'fsrs' ? 'FSRS' : 'SM-2'}: ` +
+          `${percent(report.reviewRetention)} of reviews recalled, ` +
+          `${report.answersPerDay.toFixed(1)} answers/day, ` +
+          `${percent(report.averageRecallAtEnd)} recall at the end`
+        ).join('\n\n')
+      );
+    } catch (error) {
+      console.error('Error running simulation:', error);
+      Alert.alert('Error', 'Failed to run simulation');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
   const testGeminiConnection = async () => {
     Alert.alert(
       'Test Gemini AI',
@@ -172,6 +451,203 @@ export default function ProfileScreen() {
           />
         </ThemedView>
 
+        {/* Vacation Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>🏖️ Vacation Mode</ThemedText>
+          <ThemedText style={[styles.settingDescription, styles.optionIntro]}>
+            Pause reminders while you&apos;re away. Reviews due during the trip are moved to after
+            you&apos;re back, or brought forward if they would be forgotten by then.
+          </ThemedText>
+
+          {vacations.map(vacation => (
+            <ThemedView key={vacation.id} style={styles.settingItem}>
+              <ThemedView style={styles.settingContent}>
+                <ThemedText style={styles.settingTitle}>
+                  {vacation.startsAt.toLocaleDateString()} – {addStudyDays(vacation.endsAt, -1).toLocaleDateString()}
+                </ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  {vacation.shifts.length} reviews moved
+                </ThemedText>
+              </ThemedView>
+              <TouchableOpacity onPress={() => cancelVacation(vacation)}>
+                <ThemedText style={styles.linkText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          ))}
+
+          <ThemedText style={[styles.settingTitle, styles.subsectionTitle]}>Leaving</ThemedText>
+          <ThemedView style={styles.retentionRow}>
+            {VACATION_START_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.days}
+                style={[
+                  styles.optionButton,
+                  styles.retentionButton,
+                  vacationStartsIn === option.days && styles.optionButtonSelected
+                ]}
+                onPress={() => setVacationStartsIn(option.days)}
+              >
+                <ThemedText style={styles.workloadText}>{option.label}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+
+          <ThemedText style={[styles.settingTitle, styles.subsectionTitle]}>Days Away</ThemedText>
+          <ThemedView style={styles.hourStepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setVacationDays(Math.max(vacationDays - 1, 1))}
+            >
+              <ThemedText style={styles.settingTitle}>−</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.hourText}>{vacationDays}</ThemedText>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setVacationDays(vacationDays + 1)}
+            >
+              <ThemedText style={styles.settingTitle}>+</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <TouchableOpacity style={styles.testButton} onPress={planVacation}>
+            <ThemedText style={styles.testButtonText}>🏖️ Plan Vacation</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+
+        {/* Scheduling Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>🧠 Scheduling</ThemedText>
+
+          {SCHEDULER_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.type}
+              style={[styles.optionButton, schedulerType === option.type && styles.optionButtonSelected]}
+              onPress={() => changeScheduler(option.type)}
+            >
+              <ThemedText style={styles.settingTitle}>{option.title}</ThemedText>
+              <ThemedText style={styles.settingDescription}>{option.description}</ThemedText>
+            </TouchableOpacity>
+          ))}
+
+          <ThemedText style={[styles.settingTitle, styles.subsectionTitle]}>Target Recall</ThemedText>
+          <ThemedText style={styles.settingDescription}>
+            How often you want to remember a card when it comes up. Higher targets mean
+            shorter intervals and more reviews. Applies to topics without their own target or preset.
+          </ThemedText>
+
+          <ThemedView style={styles.retentionRow}>
+            {RETENTION_OPTIONS.map(retention => {
+              const estimate = workloadEstimates.find(e => e.desiredRetention === retention);
+              return (
+                <TouchableOpacity
+                  key={retention}
+                  style={[
+                    styles.optionButton,
+                    styles.retentionButton,
+                    desiredRetention === retention && styles.optionButtonSelected
+                  ]}
+                  onPress={() => changeDesiredRetention(retention)}
+                >
+                  <ThemedText style={styles.settingTitle}>{Math.round(retention * 100)}%</ThemedText>
+                  <ThemedText style={styles.workloadText}>
+                    {estimate ? `~${Math.round(estimate.reviewsPerDay)}/day` : '…'}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ThemedView>
+          <ThemedText style={styles.workloadNote}>
+            Estimated reviews per day over the next 30 days at your current pace
+          </ThemedText>
+
+          <ThemedText style={[styles.settingTitle, styles.subsectionTitle]}>Review Order</ThemedText>
+          <ThemedText style={[styles.settingDescription, styles.optionIntro]}>
+            How due cards from different topics are mixed. Cards in learning steps always come first.
+          </ThemedText>
+
+          {REVIEW_ORDER_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.order}
+              style={[styles.optionButton, reviewOrder === option.order && styles.optionButtonSelected]}
+              onPress={() => changeReviewOrder(option.order)}
+            >
+              <ThemedText style={styles.settingTitle}>{option.title}</ThemedText>
+              <ThemedText style={styles.settingDescription}>{option.description}</ThemedText>
+            </TouchableOpacity>
+          ))}
+
+          <ThemedText style={[styles.settingTitle, styles.subsectionTitle]}>Next Day Starts At</ThemedText>
+          <ThemedText style={styles.settingDescription}>
+            Reviews, daily limits and streaks roll over at this hour, so late-night study counts
+            towards the day you started.
+          </ThemedText>
+
+          <ThemedView style={styles.hourStepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => changeDayBoundary({ dayStartHour: (dayBoundary.dayStartHour + 23) % 24 })}
+            >
+              <ThemedText style={styles.settingTitle}>−</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.hourText}>
+              {String(dayBoundary.dayStartHour).padStart(2, '0')}:00
+            </ThemedText>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => changeDayBoundary({ dayStartHour: (dayBoundary.dayStartHour + 1) % 24 })}
+            >
+              <ThemedText style={styles.settingTitle}>+</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.settingItem}>
+            <ThemedView style={styles.settingContent}>
+              <ThemedText style={styles.settingTitle}>Timezone</ThemedText>
+              <ThemedText style={styles.settingDescription}>{dayBoundary.timezone}</ThemedText>
+            </ThemedView>
+            {dayBoundary.timezone !== getDeviceTimezone() && (
+              <TouchableOpacity onPress={() => changeDayBoundary({ timezone: getDeviceTimezone() })}>
+                <ThemedText style={styles.linkText}>Use {getDeviceTimezone()}</ThemedText>
+              </TouchableOpacity>
+            )}
+          </ThemedView>
+
+          <TouchableOpacity style={[styles.testButton, styles.subsectionTitle]} onPress={optimizeParameters} disabled={optimizing}>
+            <ThemedText style={styles.testButtonText}>
+              {optimizing ? '⏳ Optimizing...' : '⚙️ Optimize From My Reviews'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+
+        {/* Trash Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>🗑️ Trash</ThemedText>
+          <ThemedText style={[styles.settingDescription, styles.optionIntro]}>
+            Deleted topics and questions, with their progress, can be restored for this long
+            before they are deleted for good. Applies to things you delete from now on.
+          </ThemedText>
+
+          <ThemedView style={styles.retentionRow}>
+            {TRASH_RETENTION_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.days}
+                style={[
+                  styles.optionButton,
+                  styles.retentionButton,
+                  trashRetentionDays === option.days && styles.optionButtonSelected
+                ]}
+                onPress={() => changeTrashRetention(option.days)}
+              >
+                <ThemedText style={styles.workloadText}>{option.label}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+
+          <TouchableOpacity style={styles.testButton} onPress={() => router.push('/trash')}>
+            <ThemedText style={styles.testButtonText}>🗑️ View Trash</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+
         {/* Development Tools Section */}
         <ThemedView style={styles.section}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>🛠️ Development Tools</ThemedText>
@@ -183,6 +659,12 @@ export default function ProfileScreen() {
           <TouchableOpacity style={styles.testButton} onPress={testGeminiConnection}>
             <ThemedText style={styles.testButtonText}>🤖 Test Gemini AI Connection</ThemedText>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.testButton} onPress={simulateSchedulers} disabled={simulating}>
+            <ThemedText style={styles.testButtonText}>
+              {simulating ? '⏳ Simulating...' : '🧪 Simulate Schedulers'}
+            </ThemedText>
+          </TouchableOpacity>
           
           <TouchableOpacity 
             style={styles.testButton}
@@ -301,6 +783,65 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     marginTop: 2,
   },
+  optionButton: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    marginBottom: 8,
+  },
+  optionButtonSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  subsectionTitle: {
+    marginTop: 8,
+  },
+  optionIntro: {
+    marginBottom: 12,
+  },
+  retentionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  retentionButton: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  workloadText: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  workloadNote: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginBottom: 16,
+  },
+  hourStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+    marginVertical: 12,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hourText: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
   testButton: {
     backgroundColor: 'rgba(0, 122, 255, 0.1)',
     padding: 16,
@@ -1,59 +1,95 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { progressService, topicsService } from '@/services/firestore';
+import { ForecastChart } from '@/components/ForecastChart';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import { ForecastDay } from '@/services/forecast';
+import { MASTERY_HORIZON_DAYS } from '@/services/spacedRepetition';
 import { Progress, Topic } from '@/types';
+import { router } from 'expo-router';
+
+const FORECAST_DAYS = 30;
 
 export default function ProgressScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
   const [topics, setTopics] = useState<Topic[]>([]);
   const [progressData, setProgressData] = useState<{ [topicId: string]: Progress[] }>({});
   const [loading, setLoading] = useState(true);
+  const [forecast, setForecast] = useState<ForecastDay[]>([]);
+  const [forecastMode, setForecastMode] = useState<'scheduled' | 'simulated'>('scheduled');
+  const [forecastLoading, setForecastLoading] = useState(true);
 
   // Mock user ID for development - replace with actual auth
   const userId = 'demo-user';
 
-  useEffect(() => {
-    loadProgressData();
-  }, []);
-
-  const loadProgressData = async () => {
-    try {
-      setLoading(true);
-      
-      // Load user topics
-      const userTopics = await topicsService.getUserTopics(userId);
-      setTopics(userTopics);
-      
-      // Load progress for each topic
+  const loadProgressData = useCallback(async () => {
+    // Load user topics and the progress for each, from the copy on this device where there is one
+    const showLocalData = async () => {
+      const userTopics = await repositories.topics.getUserTopics(userId);
       const progressByTopic: { [topicId: string]: Progress[] } = {};
-      
+
       for (const topic of userTopics) {
-        const topicProgress = await progressService.getTopicProgress(userId, topic.id);
-        progressByTopic[topic.id] = topicProgress;
+        progressByTopic[topic.id] = await repositories.progress.getTopicProgress(userId, topic.id);
       }
-      
+
+      setTopics(userTopics);
       setProgressData(progressByTopic);
+      return userTopics.length > 0;
+    };
+
+    try {
+      setLoading(true);
+      if (await showLocalData()) {
+        setLoading(false);
+      }
+
+      await repositories.sync.refresh(userId);
+      await showLocalData();
     } catch (error) {
       console.error('Error loading progress data:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [repositories]);
+
+  const loadForecast = useCallback(async (mode: 'scheduled' | 'simulated') => {
+    try {
+      setForecastMode(mode);
+      setForecastLoading(true);
+      const days = mode === 'simulated'
+        ? await services.forecast.simulateWorkload(userId, FORECAST_DAYS)
+        : await services.forecast.getForecast(userId, FORECAST_DAYS);
+      setForecast(days);
+    } catch (error) {
+      console.error('Error loading forecast:', error);
+    } finally {
+      setForecastLoading(false);
+    }
+  }, [services]);
+
+  useEffect(() => {
+    loadProgressData();
+    loadForecast('scheduled');
+  }, [loadProgressData, loadForecast]);
 
   const calculateTopicStats = (topicId: string) => {
     const progress = progressData[topicId] || [];
     const totalQuestions = progress.length;
-    const completedQuestions = progress.filter(p => p.isCompleted).length;
-    const averageAccuracy = totalQuestions > 0 
-      ? Math.round(progress.reduce((sum, p) => sum + (p.correctAnswers / p.totalAttempts), 0) / totalQuestions * 100)
+    const mastery = services.scheduling.getTopicMastery(progress);
+    const answered = progress.filter(p => p.totalAttempts > 0);
+    const averageAccuracy = answered.length > 0
+      ? Math.round(answered.reduce((sum, p) => sum + (p.correctAnswers / p.totalAttempts), 0) / answered.length * 100)
       : 0;
     
     return {
       totalQuestions,
-      completedQuestions,
+      masteredQuestions: mastery.masteredCount,
       averageAccuracy,
-      completionRate: totalQuestions > 0 ? Math.round((completedQuestions / totalQuestions) * 100) : 0
+      masteryLevel: mastery.level,
+      recallNow: Math.round(mastery.recallNow * 100)
     };
   };
 
@@ -67,7 +103,7 @@ export default function ProgressScreen() {
             {topic.title}
           </ThemedText>
           <ThemedText style={styles.completionRate}>
-            {stats.completionRate}% Complete
+            {stats.masteryLevel}% Mastery
           </ThemedText>
         </ThemedView>
         
@@ -79,14 +115,19 @@ export default function ProgressScreen() {
             </ThemedView>
             
             <ThemedView style={styles.statItem}>
-              <ThemedText style={styles.statNumber}>{stats.completedQuestions}</ThemedText>
-              <ThemedText style={styles.statLabel}>Completed</ThemedText>
+              <ThemedText style={styles.statNumber}>{stats.masteredQuestions}</ThemedText>
+              <ThemedText style={styles.statLabel}>Mastered</ThemedText>
             </ThemedView>
             
             <ThemedView style={styles.statItem}>
               <ThemedText style={styles.statNumber}>{stats.averageAccuracy}%</ThemedText>
               <ThemedText style={styles.statLabel}>Accuracy</ThemedText>
             </ThemedView>
+
+            <ThemedView style={styles.statItem}>
+              <ThemedText style={styles.statNumber}>{stats.recallNow}%</ThemedText>
+              <ThemedText style={styles.statLabel}>Recall Now</ThemedText>
+            </ThemedView>
           </ThemedView>
           
           <ThemedView style={styles.progressBarContainer}>
@@ -95,7 +136,7 @@ export default function ProgressScreen() {
                 style={[
                   styles.progressBarFill, 
                   { 
-                    width: `${stats.completionRate}%`,
+                    width: `${stats.masteryLevel}%`,
                     backgroundColor: topic.color 
                   }
                 ]} 
@@ -109,11 +150,9 @@ export default function ProgressScreen() {
 
   const OverallStats = () => {
     const totalTopics = topics.length;
-    const totalQuestions = Object.values(progressData).flat().length;
-    const completedQuestions = Object.values(progressData).flat().filter(p => p.isCompleted).length;
-    const overallAccuracy = totalQuestions > 0 
-      ? Math.round(Object.values(progressData).flat().reduce((sum, p) => sum + (p.correctAnswers / p.totalAttempts), 0) / totalQuestions * 100)
-      : 0;
+    const allProgress = Object.values(progressData).flat();
+    const totalQuestions = allProgress.length;
+    const mastery = services.scheduling.getTopicMastery(allProgress);
 
     return (
       <ThemedView style={styles.overallStats}>
@@ -131,15 +170,26 @@ export default function ProgressScreen() {
           </ThemedView>
           
           <ThemedView style={styles.statCard}>
-            <ThemedText style={styles.statCardNumber}>{completedQuestions}</ThemedText>
-            <ThemedText style={styles.statCardLabel}>Completed</ThemedText>
+            <ThemedText style={styles.statCardNumber}>{mastery.masteredCount}</ThemedText>
+            <ThemedText style={styles.statCardLabel}>Mastered</ThemedText>
           </ThemedView>
           
           <ThemedView style={styles.statCard}>
-            <ThemedText style={styles.statCardNumber}>{overallAccuracy}%</ThemedText>
-            <ThemedText style={styles.statCardLabel}>Accuracy</ThemedText>
+            <ThemedText style={styles.statCardNumber}>{mastery.level}%</ThemedText>
+            <ThemedText style={styles.statCardLabel}>Mastery</ThemedText>
           </ThemedView>
         </ThemedView>
+
+        <ThemedView style={styles.explanation}>
+          <ThemedText style={styles.explanationTitle}>What does mastery mean?</ThemedText>
+          <ThemedText style={styles.explanationText}>
+            Mastery is the predicted chance you would still remember a card if you didn&apos;t review
+            it for the next {MASTERY_HORIZON_DAYS} days, based on how well each card is holding up in
+            your memory. A topic&apos;s mastery averages this over all of its cards, counting cards you
+            haven&apos;t studied yet as 0%. Recall Now is the same prediction for today. A card is
+            mastered once that {MASTERY_HORIZON_DAYS}-day prediction reaches 90%.
+          </ThemedText>
+        </ThemedView>
       </ThemedView>
     );
   };
@@ -152,6 +202,41 @@ export default function ProgressScreen() {
 
       <ScrollView style={styles.content}>
         <OverallStats />
+
+        <ThemedView style={styles.forecastSection}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>🗓️ Upcoming Reviews</ThemedText>
+
+          <ThemedView style={styles.modeToggle}>
+            {(['scheduled', 'simulated'] as const).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.modeButton, forecastMode === mode && styles.modeButtonSelected]}
+                onPress={() => loadForecast(mode)}
+              >
+                <ThemedText style={styles.modeButtonText}>
+                  {mode === 'scheduled' ? 'Scheduled' : 'With New Cards'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+
+          {forecastLoading ? (
+            <ThemedText style={styles.forecastLoading}>Loading forecast...</ThemedText>
+          ) : (
+            <ForecastChart forecast={forecast} topics={topics} />
+          )}
+
+          {forecastMode === 'simulated' && !forecastLoading && (
+            <ThemedText style={styles.forecastNote}>
+              Assumes you recall every card and keep adding new cards at your pace from the last two weeks
+              ({forecast.reduce((sum, day) => sum + day.newCards, 0)} over the next {FORECAST_DAYS} days).
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push('/leeches')}>
+          <ThemedText style={styles.linkButtonText}>🩹 Cards You Keep Forgetting</ThemedText>
+        </TouchableOpacity>
         
         <ThemedView style={styles.topicsSection}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>📚 Topics Progress</ThemedText>
@@ -241,6 +326,66 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.7,
   },
+  forecastSection: {
+    marginBottom: 24,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    alignItems: 'center',
+  },
+  modeButtonSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  modeButtonText: {
+    fontSize: 14,
+  },
+  forecastLoading: {
+    textAlign: 'center',
+    opacity: 0.7,
+    paddingVertical: 40,
+  },
+  forecastNote: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  explanation: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  explanationTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  explanationText: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  linkButton: {
+    backgroundColor: 'rgba(255, 59, 48, 0.1)',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  linkButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
   topicsSection: {
     marginBottom: 24,
   },
@@ -1,37 +1,60 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Modal } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { topicsService } from '@/services/firestore';
+import { RETENTION_OPTIONS, SCHEDULER_OPTIONS } from '@/constants/DeckPresets';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
 import { geminiService } from '@/services/gemini';
-import { Topic } from '@/types';
+import { DEFAULT_TOPIC_PRIORITY, TOPIC_PRIORITY_OPTIONS } from '@/services/reviewOrder';
+import { SchedulerType, Topic } from '@/types';
+
+// A list of choices for one of a topic's settings
+interface TopicSettingPicker {
+  title: string;
+  message: string;
+  options: { label: string; selected: boolean; onSelect: () => void }[];
+}
 
 export default function TopicsScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
   const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newTopicTitle, setNewTopicTitle] = useState('');
   const [newTopicDescription, setNewTopicDescription] = useState('');
+  const [picker, setPicker] = useState<TopicSettingPicker | null>(null);
 
   // Mock user ID for development - replace with actual auth
   const userId = 'demo-user';
 
-  useEffect(() => {
-    loadTopics();
-  }, []);
-
-  const loadTopics = async () => {
+  const loadTopics = useCallback(async () => {
+    let localTopics: Topic[] = [];
     try {
       setLoading(true);
-      const userTopics = await topicsService.getUserTopics(userId);
-      setTopics(userTopics);
+      // Show the copy on this device straight away, then refresh it
+      localTopics = await repositories.topics.getUserTopics(userId);
+      if (localTopics.length > 0) {
+        setTopics(localTopics);
+        setLoading(false);
+      }
+
+      await repositories.sync.refresh(userId);
+      setTopics(await repositories.topics.getUserTopics(userId));
     } catch (error) {
       console.error('Error loading topics:', error);
-      Alert.alert('Error', 'Failed to load topics');
+      if (localTopics.length === 0) {
+        Alert.alert('Error', 'Failed to load topics');
+      }
     } finally {
       setLoading(false);
     }
-  };
+  }, [repositories]);
+
+  useEffect(() => {
+    loadTopics();
+  }, [loadTopics]);
 
   const createTopic = async () => {
     if (!newTopicTitle.trim()) {
@@ -46,7 +69,7 @@ export default function TopicsScreen() {
         color: '#007AFF' // Default color
       };
 
-      await topicsService.createTopic(userId, topicData);
+      await repositories.topics.createTopic(userId, topicData);
       setNewTopicTitle('');
       setNewTopicDescription('');
       setShowCreateModal(false);
@@ -94,6 +117,138 @@ export default function TopicsScreen() {
     }
   };
 
+  const chooseTopicPreset = async (topic: Topic) => {
+    try {
+      const presets = await repositories.presets.ensureUserPresets(userId);
+
+      setPicker({
+        title: 'Deck Options',
+        message: `Choose a preset for "${topic.title}"`,
+        options: presets.map(preset => ({
+          label: preset.name,
+          selected: preset.id === topic.presetId,
+          onSelect: async () => {
+            try {
+              await repositories.topics.updateTopic(topic.id, { presetId: preset.id });
+              loadTopics();
+            } catch (error) {
+              console.error('Error updating topic preset:', error);
+              Alert.alert('Error', 'Failed to update deck options');
+            }
+          }
+        }))
+      });
+    } catch (error) {
+      console.error('Error loading presets:', error);
+      Alert.alert('Error', 'Failed to load deck options');
+    }
+  };
+
+  const chooseTopicRetention = (topic: Topic) => {
+    const updateRetention = async (retention: number | null) => {
+      try {
+        await repositories.topics.setDesiredRetention(topic.id, retention);
+        loadTopics();
+      } catch (error) {
+        console.error('Error updating topic retention:', error);
+        Alert.alert('Error', 'Failed to update target recall');
+      }
+    };
+
+    setPicker({
+      title: 'Target Recall',
+      message: `How often do you want to remember cards in "${topic.title}"?`,
+      options: [
+        ...RETENTION_OPTIONS.map(retention => ({
+          label: `${Math.round(retention * 100)}%`,
+          selected: retention === topic.desiredRetention,
+          onSelect: () => updateRetention(retention)
+        })),
+        {
+          label: 'Use Deck Default',
+          selected: topic.desiredRetention === undefined,
+          onSelect: () => updateRetention(null)
+        }
+      ]
+    });
+  };
+
+  const chooseTopicScheduler = (topic: Topic) => {
+    const updateScheduler = async (schedulerType: SchedulerType | null) => {
+      try {
+        await repositories.topics.setSchedulerType(topic.id, schedulerType);
+        loadTopics();
+      } catch (error) {
+        console.error('Error updating topic scheduler:', error);
+        Alert.alert('Error', 'Failed to update scheduler');
+      }
+    };
+
+    setPicker({
+      title: 'Scheduler',
+      message: `Which scheduler should plan reviews for "${topic.title}"?`,
+      options: [
+        ...SCHEDULER_OPTIONS.map(option => ({
+          label: `${option.title}: ${option.description}`,
+          selected: option.type === topic.schedulerType,
+          onSelect: () => updateScheduler(option.type)
+        })),
+        {
+          label: 'Use Profile Default',
+          selected: topic.schedulerType === undefined,
+          onSelect: () => updateScheduler(null)
+        }
+      ]
+    });
+  };
+
+  const chooseTopicPriority = (topic: Topic) => {
+    const updatePriority = async (priority: number) => {
+      try {
+        await repositories.topics.setPriority(topic.id, priority === DEFAULT_TOPIC_PRIORITY ? null : priority);
+        loadTopics();
+      } catch (error) {
+        console.error('Error updating topic priority:', error);
+        Alert.alert('Error', 'Failed to update priority');
+      }
+    };
+
+    const current = topic.priority ?? DEFAULT_TOPIC_PRIORITY;
+
+    setPicker({
+      title: 'Priority',
+      message: `How much of a weighted review session should "${topic.title}" take up?`,
+      options: TOPIC_PRIORITY_OPTIONS.map(option => ({
+        label: option.label,
+        selected: option.priority === current,
+        onSelect: () => updatePriority(option.priority)
+      }))
+    });
+  };
+
+  const deleteTopic = (topic: Topic) => {
+    Alert.alert(
+      'Delete Topic',
+      `Move "${topic.title}" and its ${topic.questionCount} questions to the trash? You can restore them from your profile.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await services.trash.deleteTopic(userId, topic.id);
+              loadTopics();
+            } catch (error) {
+              console.error('Error deleting topic:', error);
+              Alert.alert('Error', 'Failed to delete topic');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const TopicCard = ({ topic }: { topic: Topic }) => (
     <TouchableOpacity style={styles.topicCard}>
       <ThemedView style={[styles.topicHeader, { backgroundColor: topic.color + '20' }]}>
@@ -121,6 +276,47 @@ export default function TopicsScreen() {
           <TouchableOpacity style={styles.actionButton}>
             <ThemedText style={styles.actionButtonText}>📝 Add Question</ThemedText>
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => chooseTopicPreset(topic)}
+          >
+            <ThemedText style={styles.actionButtonText}>⚙️ Options</ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => chooseTopicRetention(topic)}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              🎯 Recall {topic.desiredRetention !== undefined ? `${Math.round(topic.desiredRetention * 100)}%` : ''}
+            </ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => chooseTopicScheduler(topic)}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              🧮 Scheduler {SCHEDULER_OPTIONS.find(o => o.type === topic.schedulerType)?.title ?? ''}
+            </ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => chooseTopicPriority(topic)}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              ⚖️ Priority {TOPIC_PRIORITY_OPTIONS.find(o => o.priority === topic.priority)?.label ?? ''}
+            </ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => deleteTopic(topic)}
+          >
+            <ThemedText style={styles.actionButtonText}>🗑️ Delete</ThemedText>
+          </TouchableOpacity>
         </ThemedView>
       </ThemedView>
     </TouchableOpacity>
@@ -198,6 +394,42 @@ export default function TopicsScreen() {
           </ThemedView>
         </ThemedView>
       </Modal>
+
+      {/* Topic Setting Picker */}
+      <Modal
+        visible={picker !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPicker(null)}
+      >
+        <ThemedView style={styles.modalContainer}>
+          <ThemedView style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setPicker(null)}>
+              <ThemedText style={styles.cancelButton}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">{picker?.title}</ThemedText>
+            <ThemedView style={styles.headerSpacer} />
+          </ThemedView>
+
+          <ScrollView style={styles.modalContent}>
+            <ThemedText style={styles.pickerMessage}>{picker?.message}</ThemedText>
+            {picker?.options.map(option => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.pickerOption, option.selected && styles.pickerOptionSelected]}
+                onPress={() => {
+                  setPicker(null);
+                  option.onSelect();
+                }}
+              >
+                <ThemedText style={styles.pickerOptionText}>
+                  {option.selected ? `✓ ${option.label}` : option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </ThemedView>
+      </Modal>
     </ThemedView>
   );
 }
@@ -316,6 +548,27 @@ const styles = StyleSheet.create({
   modalContent: {
     padding: 16,
   },
+  headerSpacer: {
+    width: 50,
+  },
+  pickerMessage: {
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  pickerOption: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    marginBottom: 8,
+  },
+  pickerOptionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  pickerOptionText: {
+    fontSize: 16,
+  },
   inputLabel: {
     fontSize: 16,
     fontWeight: '500',
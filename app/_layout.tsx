@@ -2,9 +2,17 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { RepositoriesContext } from '@/hooks/useRepositories';
+import { setDayBoundary } from '@/services/dayBoundary';
+import { leechService } from '@/services/leeches';
+import { appRepositories } from '@/services/repositories';
+import { syncService } from '@/services/sync';
+import { trashService } from '@/services/trash';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -16,20 +24,54 @@ export default function RootLayout() {
   // Authentication is implemented but disabled for development
   // Enable by uncommenting auth state management in useEffect
 
+  // Study days follow the user's stored timezone and day start hour
+  useEffect(() => {
+    appRepositories.settings.getSettings('demo-user')
+      .then(settings => settings && setDayBoundary(settings))
+      .catch(error => console.error('Error loading day boundary settings:', error));
+  }, []);
+
+  // Send answers recorded offline once there's a connection
+  useEffect(() => syncService.start(), []);
+
+  // Delete trash past its retention period for good
+  useEffect(() => {
+    trashService.purgeExpired('demo-user')
+      .catch(error => console.error('Error purging trash:', error));
+  }, []);
+
+  // Rewrite leeches queued for Gemini, retrying whenever the app comes back
+  useEffect(() => {
+    const rewriteLeeches = () => leechService.rewritePending('demo-user')
+      .catch(error => console.error('Error rewriting leeches:', error));
+
+    rewriteLeeches();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') rewriteLeeches();
+    });
+    return () => subscription.remove();
+  }, []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="review-session" options={{ headerShown: false }} />
-        <Stack.Screen name="auth" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <RepositoriesContext.Provider value={appRepositories}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="review-session" options={{ headerShown: false }} />
+          <Stack.Screen name="leeches" options={{ headerShown: false }} />
+          <Stack.Screen name="custom-study" options={{ headerShown: false }} />
+          <Stack.Screen name="search" options={{ headerShown: false }} />
+          <Stack.Screen name="trash" options={{ headerShown: false }} />
+          <Stack.Screen name="auth" options={{ headerShown: false }} />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </RepositoriesContext.Provider>
   );
 }
@@ -0,0 +1,236 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useRepositories } from '@/hooks/useRepositories';
+import { CustomStudyEffect, CustomStudyFilter, LearningState, Question, Topic } from '@/types';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+const DIFFICULTIES: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+
+const CARD_STATES: { state: LearningState; label: string }[] = [
+  { state: 'new', label: 'New' },
+  { state: 'learning', label: 'Learning' },
+  { state: 'review', label: 'Review' },
+  { state: 'relearning', label: 'Relearning' },
+];
+
+const FAILED_WITHIN_OPTIONS: { days?: number; label: string }[] = [
+  { label: 'Any time' },
+  { days: 1, label: 'Today' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+export default function CustomStudyScreen() {
+  const repositories = useRepositories();
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [topicIds, setTopicIds] = useState<string[]>([]);
+  const [difficulties, setDifficulties] = useState<Question['difficulty'][]>([]);
+  const [cardStates, setCardStates] = useState<LearningState[]>([]);
+  const [failedWithinDays, setFailedWithinDays] = useState<number | undefined>();
+  const [effect, setEffect] = useState<CustomStudyEffect>('none');
+
+  // Mock user ID for development - replace with actual auth
+  const userId = 'demo-user';
+
+  useEffect(() => {
+    repositories.topics.getUserTopics(userId)
+      .then(setTopics)
+      .catch(error => {
+        console.error('Error loading topics:', error);
+        Alert.alert('Error', 'Failed to load topics');
+      });
+  }, [repositories]);
+
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const startSession = () => {
+    const filter: CustomStudyFilter = {
+      ...(topicIds.length > 0 && { topicIds }),
+      ...(difficulties.length > 0 && { difficulties }),
+      ...(cardStates.length > 0 && { cardStates }),
+      ...(failedWithinDays && { failedWithinDays }),
+    };
+
+    router.push({
+      pathname: '/review-session',
+      params: { sessionType: 'manual', filter: JSON.stringify(filter), effect }
+    });
+  };
+
+  const Chip = ({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) => (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <ThemedText style={styles.chipText}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <ThemedText style={styles.backText}>← Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title">🎛️ Custom Study</ThemedText>
+        <ThemedText style={styles.headerDescription}>
+          Practise any cards you like. Leave a section empty to include everything.
+        </ThemedText>
+      </ThemedView>
+
+      <ScrollView style={styles.content}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>Topics</ThemedText>
+        <ThemedView style={styles.chipRow}>
+          {topics.map(topic => (
+            <Chip
+              key={topic.id}
+              label={topic.title}
+              selected={topicIds.includes(topic.id)}
+              onPress={() => setTopicIds(toggle(topicIds, topic.id))}
+            />
+          ))}
+        </ThemedView>
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>Difficulty</ThemedText>
+        <ThemedView style={styles.chipRow}>
+          {DIFFICULTIES.map(difficulty => (
+            <Chip
+              key={difficulty}
+              label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+              selected={difficulties.includes(difficulty)}
+              onPress={() => setDifficulties(toggle(difficulties, difficulty))}
+            />
+          ))}
+        </ThemedView>
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>Card State</ThemedText>
+        <ThemedView style={styles.chipRow}>
+          {CARD_STATES.map(({ state, label }) => (
+            <Chip
+              key={state}
+              label={label}
+              selected={cardStates.includes(state)}
+              onPress={() => setCardStates(toggle(cardStates, state))}
+            />
+          ))}
+        </ThemedView>
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>Failed Within</ThemedText>
+        <ThemedView style={styles.chipRow}>
+          {FAILED_WITHIN_OPTIONS.map(option => (
+            <Chip
+              key={option.label}
+              label={option.label}
+              selected={failedWithinDays === option.days}
+              onPress={() => setFailedWithinDays(option.days)}
+            />
+          ))}
+        </ThemedView>
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>Effect on Schedule</ThemedText>
+        <TouchableOpacity
+          style={[styles.effectOption, effect === 'none' && styles.chipSelected]}
+          onPress={() => setEffect('none')}
+        >
+          <ThemedText style={styles.effectTitle}>No changes</ThemedText>
+          <ThemedText style={styles.effectDescription}>
+            Practise freely. Your reviews, intervals and daily limits stay exactly as they are.
+          </ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.effectOption, effect === 'preview' && styles.chipSelected]}
+          onPress={() => setEffect('preview')}
+        >
+          <ThemedText style={styles.effectTitle}>Preview</ThemedText>
+          <ThemedText style={styles.effectDescription}>
+            Cards you forget are shown again at the end of the session and brought forward in
+            your regular reviews. Intervals are not changed.
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.startButton} onPress={startSession}>
+          <ThemedText style={styles.startButtonText}>Start Custom Session</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 50,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  headerDescription: {
+    marginTop: 8,
+    opacity: 0.7,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  chipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  effectOption: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    marginBottom: 8,
+  },
+  effectTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  effectDescription: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  startButton: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  startButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
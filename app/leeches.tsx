@@ -0,0 +1,250 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useServices } from '@/hooks/useServices';
+import { LeechReportItem } from '@/services/leeches';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+export default function LeechesScreen() {
+  const services = useServices();
+  const [leeches, setLeeches] = useState<LeechReportItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rewritingId, setRewritingId] = useState<string | null>(null);
+
+  // Mock user ID for development - replace with actual auth
+  const userId = 'demo-user';
+
+  const loadLeeches = useCallback(async () => {
+    try {
+      setLoading(true);
+      const report = await services.leeches.getLeechReport(userId);
+      setLeeches(report);
+    } catch (error) {
+      console.error('Error loading leeches:', error);
+      Alert.alert('Error', 'Failed to load leeches');
+    } finally {
+      setLoading(false);
+    }
+  }, [services]);
+
+  useEffect(() => {
+    loadLeeches();
+  }, [loadLeeches]);
+
+  const toggleSuspended = async (item: LeechReportItem) => {
+    try {
+      await services.leeches.setSuspended(item.progress, !item.progress.suspended);
+      loadLeeches();
+    } catch (error) {
+      console.error('Error updating leech:', error);
+      Alert.alert('Error', 'Failed to update card');
+    }
+  };
+
+  const rewriteLeech = async (item: LeechReportItem) => {
+    try {
+      setRewritingId(item.question.id);
+      await services.leeches.rewriteWithAI(item.progress);
+      Alert.alert('Success', 'Question rewritten and returned to your reviews');
+      loadLeeches();
+    } catch (error) {
+      console.error('Error rewriting leech:', error);
+      Alert.alert('Error', 'Failed to rewrite question. Check your Gemini API key.');
+    } finally {
+      setRewritingId(null);
+    }
+  };
+
+  const deleteLeech = (item: LeechReportItem) => {
+    Alert.alert(
+      'Delete Question',
+      'Move this question and its progress to the trash? You can restore it from your profile.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await services.trash.deleteQuestion(userId, item.question.id);
+              loadLeeches();
+            } catch (error) {
+              console.error('Error deleting leech:', error);
+              Alert.alert('Error', 'Failed to delete question');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const LeechCard = ({ item }: { item: LeechReportItem }) => (
+    <ThemedView style={styles.leechCard}>
+      <ThemedView style={styles.cardHeader}>
+        <ThemedText style={styles.lapses}>
+          {item.progress.lapses || 0} lapses
+        </ThemedText>
+        {item.progress.suspended && (
+          <ThemedText style={styles.suspendedBadge}>Suspended</ThemedText>
+        )}
+      </ThemedView>
+
+      <ThemedText style={styles.questionText}>{item.question.question}</ThemedText>
+      <ThemedText style={styles.answerText}>{item.question.answer}</ThemedText>
+
+      <ThemedView style={styles.cardActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => toggleSuspended(item)}>
+          <ThemedText style={styles.actionButtonText}>
+            {item.progress.suspended ? '▶️ Unsuspend' : '⏸️ Suspend'}
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => rewriteLeech(item)}
+          disabled={rewritingId !== null}
+        >
+          <ThemedText style={styles.actionButtonText}>
+            {rewritingId === item.question.id ? '⏳ Rewriting...' : '🤖 Rewrite with AI'}
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={() => deleteLeech(item)}>
+          <ThemedText style={styles.actionButtonText}>🗑️ Delete</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <ThemedText style={styles.backText}>← Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title">🩹 Leeches</ThemedText>
+        <ThemedText style={styles.headerDescription}>
+          Cards you keep forgetting. Rewrite them, suspend them until you are ready, or delete them.
+        </ThemedText>
+      </ThemedView>
+
+      <ScrollView style={styles.content}>
+        {loading ? (
+          <ThemedText style={styles.loadingText}>Loading leeches...</ThemedText>
+        ) : leeches.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <ThemedText style={styles.emptyText}>🎉</ThemedText>
+            <ThemedText type="subtitle" style={styles.emptyTitle}>
+              No Leeches
+            </ThemedText>
+            <ThemedText style={styles.emptyDescription}>
+              None of your cards are being forgotten over and over
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          leeches.map((item) => (
+            <LeechCard key={item.question.id} item={item} />
+          ))
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 50,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  headerDescription: {
+    marginTop: 8,
+    opacity: 0.7,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loadingText: {
+    textAlign: 'center',
+    marginTop: 50,
+    opacity: 0.7,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 50,
+  },
+  emptyText: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    textAlign: 'center',
+    opacity: 0.7,
+    paddingHorizontal: 32,
+  },
+  leechCard: {
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  lapses: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  suspendedBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
+  questionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  answerText: {
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -1,27 +1,54 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { questionsService } from '@/services/firestore';
-import { spacedRepetitionService } from '@/services/spacedRepetition';
-import { Progress, Question } from '@/types';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import { AnswerUndo, CustomStudyEffect, CustomStudyFilter, Progress, Question, ReviewGrade } from '@/types';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Alert, BackHandler, StyleSheet, TouchableOpacity } from 'react-native';
 
+type ReviewItem = Progress & { question: Question };
+
+type SessionStats = {
+  questionsReviewed: number;
+  correctAnswers: number;
+  totalTime: number;
+};
+
+// Session state from just before an answer, restored when it is undone
+type AnswerHistoryEntry = {
+  undo?: AnswerUndo; // scheduled answers
+  previewUndo?: Progress | null; // custom study answers that moved a due date
+  questions: ReviewItem[];
+  learningQueue: ReviewItem[];
+  currentIndex: number;
+  sessionStats: SessionStats;
+};
+
 export default function ReviewSessionScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
   const params = useLocalSearchParams();
   const sessionType = (params.sessionType as 'immediate' | 'spaced' | 'manual') || 'spaced';
+  // Manual sessions are custom study over a filtered set of cards
+  const filterParam = (params.filter as string | undefined) || '{}';
+  const effect = (params.effect as CustomStudyEffect) || 'none';
 
-  const [questions, setQuestions] = useState<(Progress & { question: Question })[]>([]);
+  const [questions, setQuestions] = useState<ReviewItem[]>([]);
+  const [learningQueue, setLearningQueue] = useState<ReviewItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState<Date>(new Date());
   const [questionStartTime, setQuestionStartTime] = useState<Date>(new Date());
-  const [sessionStats, setSessionStats] = useState({
+  const [sessionStats, setSessionStats] = useState<SessionStats>({
     questionsReviewed: 0,
     correctAnswers: 0,
     totalTime: 0
   });
+  const [answerHistory, setAnswerHistory] = useState<AnswerHistoryEntry[]>([]);
+  const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [sessionId] = useState(() => `session-${Date.now().toString(36)}`);
 
   // Mock user ID for development
   const userId = 'demo-user';
@@ -31,8 +58,16 @@ export default function ReviewSessionScreen() {
       try {
         setLoading(true);
 
+        if (sessionType === 'manual') {
+          const filter: CustomStudyFilter = JSON.parse(filterParam);
+          setQuestions(await services.customStudy.getCards(userId, filter));
+          setSessionStartTime(new Date());
+          setQuestionStartTime(new Date());
+          return;
+        }
+
         // Get questions for review
-        const progressItems = await spacedRepetitionService.getQuestionsForReview(
+        const progressItems = await services.scheduling.getQuestionsForReview(
           userId,
           sessionType,
           20
@@ -41,7 +76,7 @@ export default function ReviewSessionScreen() {
         // Load question details
         const questionsWithDetails = await Promise.all(
           progressItems.map(async (progress) => {
-            const question = await questionsService.getQuestion(progress.questionId);
+            const question = await repositories.questions.getQuestion(progress.questionId);
             return { ...progress, question: question! };
           })
         );
@@ -62,7 +97,7 @@ export default function ReviewSessionScreen() {
     // Handle back button
     const backHandler = BackHandler.addEventListener('hardwareBackPress', handleBackPress);
     return () => backHandler.remove();
-  }, [userId, sessionType]);
+  }, [userId, sessionType, filterParam, repositories, services]);
 
   const handleBackPress = () => {
     Alert.alert(
@@ -78,22 +113,38 @@ export default function ReviewSessionScreen() {
 
 
 
-  const handleAnswer = async (performance: 'easy' | 'good' | 'hard' | 'again') => {
-    if (currentIndex >= questions.length) return;
+  const handleAnswer = async (performance: ReviewGrade) => {
+    if (currentIndex >= questions.length || saving) return;
+    if (sessionType === 'manual') return handleCustomStudyAnswer(performance);
 
     const currentQuestion = questions[currentIndex];
     const responseTime = (new Date().getTime() - questionStartTime.getTime()) / 1000;
 
     try {
+      setSaving(true);
+
       // Process the answer
-      await spacedRepetitionService.processAnswer(
+      const { progress: updatedProgress, undo } = await services.scheduling.processAnswer(
         userId,
         currentQuestion.questionId,
         currentQuestion.topicId,
         performance,
-        responseTime
+        responseTime,
+        sessionId
       );
 
+      const history = [
+        ...answerHistory,
+        { undo, questions, learningQueue, currentIndex, sessionStats }
+      ];
+      setAnswerHistory(history);
+
+      // Leeches queued for a rewrite are rewritten in the background
+      if (updatedProgress.rewritePending) {
+        services.leeches.rewritePending(userId)
+          .catch(error => console.error('Error rewriting leeches:', error));
+      }
+
       // Update session stats
       const isCorrect = performance !== 'again';
       setSessionStats(prev => ({
@@ -102,25 +153,113 @@ export default function ReviewSessionScreen() {
         totalTime: prev.totalTime + responseTime
       }));
 
+      // Cards still in their learning steps come back later in this session
+      const queue = services.scheduling.isLearning(updatedProgress)
+        ? [...learningQueue, { ...updatedProgress, question: currentQuestion.question }]
+        : learningQueue;
+      const hasMoreCards = currentIndex + 1 < questions.length;
+      const nextLearningCard = services.scheduling.getNextLearningCard(queue, hasMoreCards);
+
+      if (nextLearningCard) {
+        setQuestions(prev => [
+          ...prev.slice(0, currentIndex + 1),
+          nextLearningCard,
+          ...prev.slice(currentIndex + 1)
+        ]);
+      }
+      setLearningQueue(queue.filter(item => item !== nextLearningCard));
+
       // Move to next question or finish session
-      if (currentIndex + 1 < questions.length) {
+      if (hasMoreCards || nextLearningCard) {
         setCurrentIndex(currentIndex + 1);
         setShowAnswer(false);
         setQuestionStartTime(new Date());
       } else {
-        finishSession();
+        finishSession(history);
       }
     } catch (error) {
       console.error('Error processing answer:', error);
       Alert.alert('Error', 'Failed to save your answer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCustomStudyAnswer = async (performance: ReviewGrade) => {
+    const currentQuestion = questions[currentIndex];
+    const responseTime = (new Date().getTime() - questionStartTime.getTime()) / 1000;
+
+    try {
+      setSaving(true);
+      const previewUndo = await services.customStudy.recordAnswer(currentQuestion, performance, effect);
+
+      const history = [
+        ...answerHistory,
+        { previewUndo, questions, learningQueue, currentIndex, sessionStats }
+      ];
+      setAnswerHistory(history);
+
+      const isCorrect = performance !== 'again';
+      setSessionStats(prev => ({
+        questionsReviewed: prev.questionsReviewed + 1,
+        correctAnswers: prev.correctAnswers + (isCorrect ? 1 : 0),
+        totalTime: prev.totalTime + responseTime
+      }));
+
+      // Previewed cards that were forgotten come back at the end of the session
+      const requeue = effect === 'preview' && !isCorrect;
+      if (requeue) {
+        setQuestions(prev => [...prev, currentQuestion]);
+      }
+
+      if (currentIndex + 1 < questions.length || requeue) {
+        setCurrentIndex(currentIndex + 1);
+        setShowAnswer(false);
+        setQuestionStartTime(new Date());
+      } else {
+        finishSession(history);
+      }
+    } catch (error) {
+      console.error('Error recording custom study answer:', error);
+      Alert.alert('Error', 'Failed to save your answer');
+    } finally {
+      setSaving(false);
     }
   };
 
-  const finishSession = () => {
+  const undoLastAnswer = async (history: AnswerHistoryEntry[] = answerHistory) => {
+    const entry = history[history.length - 1];
+    if (!entry || saving) return;
+
+    try {
+      setSaving(true);
+      if (entry.undo) {
+        await services.scheduling.undoAnswer(entry.undo);
+      } else if (entry.previewUndo) {
+        await services.customStudy.undoAnswer(entry.previewUndo);
+      }
+
+      // Return to the card as it was before the answer
+      setAnswerHistory(history.slice(0, -1));
+      setQuestions(entry.questions);
+      setLearningQueue(entry.learningQueue);
+      setCurrentIndex(entry.currentIndex);
+      setSessionStats(entry.sessionStats);
+      setShowAnswer(true);
+      setQuestionStartTime(new Date());
+    } catch (error) {
+      console.error('Error undoing answer:', error);
+      Alert.alert('Error', 'Failed to undo your answer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const finishSession = (history: AnswerHistoryEntry[]) => {
     const sessionDuration = (new Date().getTime() - sessionStartTime.getTime()) / 1000;
     const averageResponseTime = sessionStats.totalTime / sessionStats.questionsReviewed;
     
-    const stats = spacedRepetitionService.generateSessionStats(
+    const stats = services.scheduling.generateSessionStats(
       sessionStats.questionsReviewed,
       sessionStats.correctAnswers,
       sessionDuration,
@@ -131,6 +270,7 @@ export default function ReviewSessionScreen() {
       'Session Complete! 🎉',
       `Questions: ${sessionStats.questionsReviewed}\nAccuracy: ${stats.accuracy}%\nPerformance: ${stats.performance}`,
       [
+        { text: 'Undo Last Answer', onPress: () => undoLastAnswer(history) },
         { text: 'OK', onPress: () => router.back() }
       ]
     );
@@ -150,10 +290,12 @@ export default function ReviewSessionScreen() {
         <ThemedView style={styles.emptyState}>
           <ThemedText style={styles.emptyEmoji}>🎯</ThemedText>
           <ThemedText type="title" style={styles.emptyTitle}>
-            No Questions Due
+            {sessionType === 'manual' ? 'No Matching Cards' : 'No Questions Due'}
           </ThemedText>
           <ThemedText style={styles.emptyDescription}>
-            Great job! You&apos;re all caught up with your reviews.
+            {sessionType === 'manual'
+              ? 'No cards match these filters. Try widening your selection.'
+              : 'Great job! You\'re all caught up with your reviews.'}
           </ThemedText>
           <TouchableOpacity 
             style={styles.backButton}
@@ -179,6 +321,14 @@ export default function ReviewSessionScreen() {
         <ThemedText style={styles.progressText}>
           {currentIndex + 1} / {questions.length}
         </ThemedText>
+        <TouchableOpacity
+          onPress={() => undoLastAnswer()}
+          disabled={answerHistory.length === 0 || saving}
+        >
+          <ThemedText style={[styles.undoText, answerHistory.length === 0 && styles.undoTextDisabled]}>
+            ↶ Undo
+          </ThemedText>
+        </TouchableOpacity>
       </ThemedView>
 
       {/* Progress Bar */}
@@ -285,6 +435,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  undoText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  undoTextDisabled: {
+    opacity: 0.3,
+  },
   progressBarContainer: {
     height: 4,
     backgroundColor: 'rgba(0, 0, 0, 0.1)',
@@ -0,0 +1,322 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import { SavedSearch, StudyCard } from '@/types';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+const EXAMPLES = [
+  'topic:Biology difficulty:hard',
+  'lapses>3 -is:suspended',
+  'due<7d type:multiple_choice',
+  'is:new added<3d',
+];
+
+export default function SearchScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<StudyCard[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [saveName, setSaveName] = useState('');
+
+  // Mock user ID for development - replace with actual auth
+  const userId = 'demo-user';
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      setSavedSearches(await repositories.savedSearches.getUserSavedSearches(userId));
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  }, [repositories]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  const runSearch = async (text: string = query) => {
+    setQuery(text);
+    if (!text.trim()) return;
+
+    try {
+      setSearching(true);
+      setError(null);
+      setResults(await services.search.search(userId, text));
+    } catch (error: any) {
+      console.error('Error searching cards:', error);
+      setResults(null);
+      setError(error.message || 'Search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const saveSearch = async () => {
+    try {
+      await repositories.savedSearches.createSavedSearch(userId, saveName.trim() || query, query);
+      setSaveName('');
+      loadSavedSearches();
+      Alert.alert('Saved', 'This search is now a study set');
+    } catch (error) {
+      console.error('Error saving search:', error);
+      Alert.alert('Error', 'Failed to save search');
+    }
+  };
+
+  const deleteSavedSearch = (savedSearch: SavedSearch) => {
+    Alert.alert(
+      'Delete Study Set',
+      `Delete "${savedSearch.name}"? Your cards are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await repositories.savedSearches.deleteSavedSearch(savedSearch.id);
+              loadSavedSearches();
+            } catch (error) {
+              console.error('Error deleting saved search:', error);
+              Alert.alert('Error', 'Failed to delete study set');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const studyQuery = (text: string) => {
+    router.push({
+      pathname: '/review-session',
+      params: { sessionType: 'manual', filter: JSON.stringify({ query: text }) }
+    });
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <ThemedText style={styles.backText}>← Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title">🔍 Search Cards</ThemedText>
+        <TextInput
+          style={styles.textInput}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={() => runSearch()}
+          placeholder="topic:Biology lapses>3 due<7d"
+          placeholderTextColor="#999"
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+      </ThemedView>
+
+      <ScrollView style={styles.content}>
+        {searching ? (
+          <ThemedText style={styles.loadingText}>Searching...</ThemedText>
+        ) : results ? (
+          <>
+            <ThemedView style={styles.resultsHeader}>
+              <ThemedText type="subtitle">{results.length} cards</ThemedText>
+              {results.length > 0 && (
+                <TouchableOpacity style={styles.studyButton} onPress={() => studyQuery(query)}>
+                  <ThemedText style={styles.studyButtonText}>Study These</ThemedText>
+                </TouchableOpacity>
+              )}
+            </ThemedView>
+
+            <ThemedView style={styles.saveRow}>
+              <TextInput
+                style={[styles.textInput, styles.saveInput]}
+                value={saveName}
+                onChangeText={setSaveName}
+                placeholder="Name this study set..."
+                placeholderTextColor="#999"
+              />
+              <TouchableOpacity style={styles.saveButton} onPress={saveSearch}>
+                <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+
+            {results.map(card => (
+              <ThemedView key={card.questionId} style={styles.resultCard}>
+                <ThemedText style={styles.questionText}>{card.question.question}</ThemedText>
+                <ThemedText style={styles.resultMeta}>
+                  {card.question.difficulty} · {card.learningState ?? 'review'} · {card.lapses || 0} lapses
+                  {card.learningState !== 'new' && ` · due ${card.nextReviewAt.toLocaleDateString()}`}
+                </ThemedText>
+              </ThemedView>
+            ))}
+          </>
+        ) : (
+          <>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>📌 Study Sets</ThemedText>
+            {savedSearches.length === 0 ? (
+              <ThemedText style={styles.hintText}>
+                Save a search to study the cards it matches at any time.
+              </ThemedText>
+            ) : (
+              savedSearches.map(savedSearch => (
+                <ThemedView key={savedSearch.id} style={styles.resultCard}>
+                  <TouchableOpacity onPress={() => runSearch(savedSearch.query)}>
+                    <ThemedText style={styles.questionText}>{savedSearch.name}</ThemedText>
+                    <ThemedText style={styles.resultMeta}>{savedSearch.query}</ThemedText>
+                  </TouchableOpacity>
+                  <ThemedView style={styles.savedActions}>
+                    <TouchableOpacity onPress={() => studyQuery(savedSearch.query)}>
+                      <ThemedText style={styles.linkText}>Study</ThemedText>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => deleteSavedSearch(savedSearch)}>
+                      <ThemedText style={styles.deleteText}>Delete</ThemedText>
+                    </TouchableOpacity>
+                  </ThemedView>
+                </ThemedView>
+              ))
+            )}
+
+            <ThemedText type="subtitle" style={styles.sectionTitle}>💡 Syntax</ThemedText>
+            <ThemedText style={styles.hintText}>
+              Combine terms with spaces; every term must match. Put - in front of a term to exclude
+              it and quotes around values with spaces, like topic:&quot;Cell Biology&quot;.
+              {'\n\n'}Fields: topic, question, answer, difficulty, type, state, scheduler, lapses, reps,
+              correct, ease, mastery, recall, interval, due, added, answered.
+              {'\n'}Flags: is:new, is:learning, is:review, is:due, is:suspended, is:leech, is:mastered.
+              {'\n\n'}Numbers compare with : = &lt; &gt; &lt;= &gt;=. Durations use h, d or w (days by default).
+            </ThemedText>
+            {EXAMPLES.map(example => (
+              <TouchableOpacity key={example} onPress={() => runSearch(example)}>
+                <ThemedText style={styles.exampleText}>{example}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 50,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loadingText: {
+    textAlign: 'center',
+    marginTop: 50,
+    opacity: 0.7,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  hintText: {
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  exampleText: {
+    color: '#007AFF',
+    fontFamily: 'SpaceMono',
+    marginBottom: 8,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  studyButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  studyButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  saveInput: {
+    flex: 1,
+  },
+  saveButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  saveButtonText: {
+    fontWeight: '600',
+  },
+  resultCard: {
+    marginBottom: 12,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  questionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  resultMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  savedActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,238 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useRepositories } from '@/hooks/useRepositories';
+import { useServices } from '@/hooks/useServices';
+import { TrashEntry } from '@/types';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+export default function TrashScreen() {
+  const repositories = useRepositories();
+  const services = useServices();
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Mock user ID for development - replace with actual auth
+  const userId = 'demo-user';
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await services.trash.getTrash(userId));
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [services]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const restoreEntry = async (entry: TrashEntry) => {
+    try {
+      setRestoringId(entry.id);
+      await services.trash.restore(entry);
+      // Bring the restored cards back into the copy on this device
+      await repositories.sync.refresh(userId);
+      loadTrash();
+    } catch (error: any) {
+      console.error('Error restoring from trash:', error);
+      Alert.alert('Error', error.message || 'Failed to restore');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const deleteForever = (entry: TrashEntry) => {
+    Alert.alert(
+      'Delete Forever',
+      `Delete "${entry.title}" and everything deleted with it? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await services.trash.deleteForever(entry);
+              loadTrash();
+            } catch (error) {
+              console.error('Error deleting from trash:', error);
+              Alert.alert('Error', 'Failed to delete');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const TrashCard = ({ entry }: { entry: TrashEntry }) => (
+    <ThemedView style={styles.trashCard}>
+      <ThemedView style={styles.cardHeader}>
+        <ThemedText style={styles.kind}>
+          {entry.kind === 'topic' ? '📚 Topic' : '📝 Question'}
+        </ThemedText>
+        <ThemedText style={styles.itemCount}>
+          {entry.itemCount} {entry.itemCount === 1 ? 'item' : 'items'}
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedText style={styles.titleText}>{entry.title}</ThemedText>
+      <ThemedText style={styles.dateText}>
+        Deleted {entry.deletedAt.toLocaleDateString()} · gone for good after {entry.purgeAt.toLocaleDateString()}
+      </ThemedText>
+
+      <ThemedView style={styles.cardActions}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => restoreEntry(entry)}
+          disabled={restoringId !== null}
+        >
+          <ThemedText style={styles.actionButtonText}>
+            {restoringId === entry.id ? '⏳ Restoring...' : '↩️ Restore'}
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={() => deleteForever(entry)}>
+          <ThemedText style={styles.actionButtonText}>🗑️ Delete Forever</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <ThemedText style={styles.backText}>← Back</ThemedText>
+        </TouchableOpacity>
+        <ThemedText type="title">🗑️ Trash</ThemedText>
+        <ThemedText style={styles.headerDescription}>
+          Deleted topics and questions, with the progress that went with them.
+        </ThemedText>
+      </ThemedView>
+
+      <ScrollView style={styles.content}>
+        {loading ? (
+          <ThemedText style={styles.loadingText}>Loading trash...</ThemedText>
+        ) : entries.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <ThemedText style={styles.emptyText}>✨</ThemedText>
+            <ThemedText type="subtitle" style={styles.emptyTitle}>
+              Trash Is Empty
+            </ThemedText>
+            <ThemedText style={styles.emptyDescription}>
+              Topics and questions you delete show up here until they are deleted for good
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          entries.map((entry) => (
+            <TrashCard key={entry.id} entry={entry} />
+          ))
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 50,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  headerDescription: {
+    marginTop: 8,
+    opacity: 0.7,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loadingText: {
+    textAlign: 'center',
+    marginTop: 50,
+    opacity: 0.7,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 50,
+  },
+  emptyText: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    textAlign: 'center',
+    opacity: 0.7,
+    paddingHorizontal: 32,
+  },
+  trashCard: {
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  kind: {
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.7,
+  },
+  itemCount: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  titleText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  dateText: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
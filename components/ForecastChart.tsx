@@ -0,0 +1,122 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import type { ForecastDay } from '@/services/forecast';
+import type { Topic } from '@/types';
+
+export type ForecastChartProps = {
+  forecast: ForecastDay[];
+  topics: Topic[];
+  height?: number;
+};
+
+const FALLBACK_COLOR = '#8E8E93';
+
+/**
+ * Stacked bar chart of reviews due per day, one colour segment per topic
+ */
+export function ForecastChart({ forecast, topics, height = 120 }: ForecastChartProps) {
+  const peak = Math.max(...forecast.map(day => day.total), 0);
+  const max = Math.max(peak, 1);
+  const total = forecast.reduce((sum, day) => sum + day.total, 0);
+  const colors = Object.fromEntries(topics.map(topic => [topic.id, topic.color]));
+
+  return (
+    <ThemedView>
+      <ThemedView style={styles.summary}>
+        <ThemedText style={styles.summaryText}>
+          {forecast[0]?.total ?? 0} due today
+        </ThemedText>
+        <ThemedText style={styles.summaryText}>
+          {Math.round(total / Math.max(forecast.length, 1))} / day average
+        </ThemedText>
+        <ThemedText style={styles.summaryText}>Peak {peak}</ThemedText>
+      </ThemedView>
+
+      <View style={[styles.chart, { height }]}>
+        {forecast.map(day => (
+          <View key={day.date.toISOString()} style={styles.column}>
+            {Object.entries(day.byTopic).map(([topicId, count]) => (
+              <View
+                key={topicId}
+                style={{
+                  height: (count / max) * height,
+                  backgroundColor: colors[topicId] ?? FALLBACK_COLOR,
+                }}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+
+      <ThemedView style={styles.axis}>
+        <ThemedText style={styles.axisLabel}>Today</ThemedText>
+        <ThemedText style={styles.axisLabel}>+{forecast.length - 1} days</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.legend}>
+        {topics
+          .filter(topic => forecast.some(day => day.byTopic[topic.id]))
+          .map(topic => (
+            <ThemedView key={topic.id} style={styles.legendItem}>
+              <View style={[styles.legendSwatch, { backgroundColor: topic.color }]} />
+              <ThemedText style={styles.legendText}>{topic.title}</ThemedText>
+            </ThemedView>
+          ))}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  column: {
+    flex: 1,
+    flexDirection: 'column-reverse',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    overflow: 'hidden',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisLabel: {
+    fontSize: 10,
+    opacity: 0.5,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,58 @@
+import { DeckOptions, SchedulerType } from '@/types';
+
+/**
+ * Presets created for every user the first time they open deck options.
+ * Intervals are in hours and learning steps in minutes.
+ */
+
+export const DEFAULT_DECK_OPTIONS: DeckOptions = {
+  maxInterval: 365 * 24, // 1 year
+  initialInterval: 5,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  desiredRetention: 0.9,
+  leechThreshold: 8,
+  leechAction: 'tag',
+};
+
+// Target recall levels offered in settings
+export const RETENTION_OPTIONS = [0.8, 0.85, 0.9, 0.95];
+
+// Schedulers offered in settings
+export const SCHEDULER_OPTIONS: { type: SchedulerType; title: string; description: string }[] = [
+  { type: 'sm2', title: 'SM-2', description: 'Classic interval doubling' },
+  { type: 'fsrs', title: 'FSRS', description: 'Memory model based on stability and difficulty' },
+];
+
+export const BUILT_IN_PRESETS: ({ name: string } & DeckOptions)[] = [
+  {
+    name: 'Default',
+    ...DEFAULT_DECK_OPTIONS,
+  },
+  {
+    name: 'Long-term Retention',
+    maxInterval: 10 * 365 * 24, // 10 years
+    initialInterval: 24,
+    learningSteps: [10, 60],
+    relearningSteps: [10],
+    newCardsPerDay: 10,
+    reviewsPerDay: 200,
+    desiredRetention: 0.9,
+    leechThreshold: 8,
+    leechAction: 'suspend',
+  },
+  {
+    name: 'Exam Cram',
+    maxInterval: 7 * 24, // 1 week
+    initialInterval: 2,
+    learningSteps: [1, 5, 15],
+    relearningSteps: [5],
+    newCardsPerDay: 50,
+    reviewsPerDay: 500,
+    desiredRetention: 0.95,
+    leechThreshold: 5,
+    leechAction: 'rewrite',
+  },
+];
@@ -0,0 +1,59 @@
+import { Question, Topic } from '@/types';
+
+/**
+ * Demo mode runs the app on in-memory repositories over the device's local
+ * store instead of Firebase, starting from the sample topics below.
+ * Enable with EXPO_PUBLIC_DEMO_MODE=true.
+ */
+
+export const DEMO_MODE = process.env.EXPO_PUBLIC_DEMO_MODE === 'true';
+
+type DemoTopic = Pick<Topic, 'title' | 'description' | 'color'> & {
+  questions: Pick<Question, 'question' | 'answer' | 'type' | 'difficulty' | 'options'>[];
+};
+
+export const DEMO_TOPICS: DemoTopic[] = [
+  {
+    title: 'World Capitals',
+    description: 'Capital cities around the world',
+    color: '#007AFF',
+    questions: [
+      { question: 'What is the capital of Australia?', answer: 'Canberra', type: 'open', difficulty: 'medium' },
+      { question: 'What is the capital of Canada?', answer: 'Ottawa', type: 'open', difficulty: 'easy' },
+      {
+        question: 'Which city is the capital of Brazil?',
+        answer: 'Brasília',
+        type: 'multiple_choice',
+        difficulty: 'medium',
+        options: ['Rio de Janeiro', 'São Paulo', 'Brasília', 'Salvador']
+      },
+      { question: 'What is the capital of Kenya?', answer: 'Nairobi', type: 'open', difficulty: 'easy' },
+      { question: 'Bern is the capital of Switzerland.', answer: 'True', type: 'true_false', difficulty: 'hard' },
+    ],
+  },
+  {
+    title: 'Spaced Repetition',
+    description: 'How this app schedules your reviews',
+    color: '#34C759',
+    questions: [
+      {
+        question: 'What does spaced repetition space out?',
+        answer: 'Reviews of the same material, at growing intervals',
+        type: 'open',
+        difficulty: 'easy'
+      },
+      {
+        question: 'What is the forgetting curve?',
+        answer: 'How the chance of recalling something drops as time passes since it was last reviewed',
+        type: 'open',
+        difficulty: 'medium'
+      },
+      {
+        question: 'A leech is a card that keeps being forgotten.',
+        answer: 'True',
+        type: 'true_false',
+        difficulty: 'easy'
+      },
+    ],
+  },
+];
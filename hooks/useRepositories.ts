@@ -0,0 +1,12 @@
+import { appRepositories, Repositories } from '@/services/repositories';
+import { createContext, useContext } from 'react';
+
+/**
+ * The repositories screens read and write through. Provide different ones,
+ * such as in-memory repositories, to run screens without Firebase.
+ */
+export const RepositoriesContext = createContext<Repositories>(appRepositories);
+
+export function useRepositories(): Repositories {
+  return useContext(RepositoriesContext);
+}
@@ -0,0 +1,51 @@
+import { BacklogService } from '@/services/backlog';
+import { CustomStudyService } from '@/services/customStudy';
+import { ForecastService } from '@/services/forecast';
+import { LeechService } from '@/services/leeches';
+import { SchedulerOptimizer } from '@/services/optimizer';
+import { Repositories } from '@/services/repositories';
+import { SearchService } from '@/services/search';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from '@/services/spacedRepetition';
+import { StreakService } from '@/services/streaks';
+import { TrashService } from '@/services/trash';
+import { VacationService } from '@/services/vacation';
+import { useMemo } from 'react';
+import { useRepositories } from './useRepositories';
+
+// Services screens use, all working on the same repositories
+export interface Services {
+  scheduling: SpacedRepetitionService;
+  backlog: BacklogService;
+  customStudy: CustomStudyService;
+  forecast: ForecastService;
+  leeches: LeechService;
+  optimizer: SchedulerOptimizer;
+  search: SearchService;
+  streaks: StreakService;
+  trash: TrashService;
+  vacation: VacationService;
+}
+
+export function createServices(repositories: Repositories): Services {
+  return {
+    scheduling: new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling),
+    backlog: new BacklogService(repositories),
+    customStudy: new CustomStudyService(repositories),
+    forecast: new ForecastService(repositories),
+    leeches: new LeechService(repositories),
+    optimizer: new SchedulerOptimizer(undefined, undefined, repositories),
+    search: new SearchService(repositories),
+    streaks: new StreakService(repositories),
+    trash: new TrashService(repositories),
+    vacation: new VacationService(repositories)
+  };
+}
+
+/**
+ * Services over the repositories screens are given, so screens run on the
+ * same backend whether it is Firestore, demo mode or in-memory data
+ */
+export function useServices(): Services {
+  const repositories = useRepositories();
+  return useMemo(() => createServices(repositories), [repositories]);
+}
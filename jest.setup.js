@@ -0,0 +1,6 @@
+// Services reach Firebase and device storage when imported; tests only use their pure parts
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/lib/firebase', () => ({ db: {}, auth: {} }));
+jest.mock('firebase/firestore', () => ({}));
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Backfill fields added to progress documents after they were created:
+ * the SM-2 ease factor and the learning state used by the review queue
+ */
+
+require('dotenv').config();
+
+const { initializeApp } = require('firebase/app');
+const { getFirestore, collection, getDocs, writeBatch } = require('firebase/firestore');
+
+// Firebase configuration
+const firebaseConfig = {
+  apiKey: process.env.EXPO_PUBLIC_FIREBASE_API_KEY || "demo-api-key",
+  authDomain: "education-f59b8.firebaseapp.com",
+  projectId: "education-f59b8",
+  storageBucket: "education-f59b8.appspot.com",
+  messagingSenderId: "906206853294",
+  appId: process.env.EXPO_PUBLIC_FIREBASE_APP_ID || "demo-app-id"
+};
+
+// Must match initialEase in services/spacedRepetition.ts
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const BATCH_SIZE = 500; // Firestore batch write limit
+
+/**
+ * Estimate a starting ease from the card's answer history, so that cards
+ * the user has struggled with don't start out as easy as fresh ones
+ */
+function estimateEase(data) {
+  if (!data.totalAttempts) return DEFAULT_EASE;
+
+  const accuracy = data.correctAnswers / data.totalAttempts;
+  const ease = DEFAULT_EASE - (1 - accuracy) * 0.8;
+  return Math.round(Math.max(ease, MIN_EASE) * 100) / 100;
+}
+
+/**
+ * Fields a document is missing, or null if it is up to date
+ */
+function getMissingFields(data) {
+  const updates = {};
+
+  if (data.easeFactor === undefined) {
+    updates.easeFactor = estimateEase(data);
+  }
+
+  // Documents written before learning steps existed have all been reviewed
+  if (data.learningState === undefined) {
+    updates.learningState = data.totalAttempts > 0 ? 'review' : 'new';
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+async function migrateProgress() {
+  try {
+    console.log('🔧 Migrating progress documents...');
+
+    const app = initializeApp(firebaseConfig);
+    const db = getFirestore(app);
+
+    const snapshot = await getDocs(collection(db, 'progress'));
+    const pending = snapshot.docs
+      .map(doc => ({ ref: doc.ref, updates: getMissingFields(doc.data()) }))
+      .filter(item => item.updates);
+
+    console.log(`📄 ${pending.length} of ${snapshot.size} documents need migrating`);
+
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + BATCH_SIZE).forEach(item => {
+        batch.update(item.ref, item.updates);
+      });
+      await batch.commit();
+      console.log(`✅ Migrated ${Math.min(i + BATCH_SIZE, pending.length)} / ${pending.length}`);
+    }
+
+    console.log('🎉 Migration complete!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  }
+}
+
+migrateProgress();
@@ -0,0 +1,80 @@
+import { Progress, Topic } from '@/types';
+import { createSeededRandom } from '../schedulers/clock';
+import { reviewOrderService } from '../reviewOrder';
+
+function makeCard(id: string, topicId: string, overrides: Partial<Progress> = {}): Progress {
+  return {
+    id,
+    userId: 'user',
+    questionId: id,
+    topicId,
+    correctAnswers: 0,
+    totalAttempts: 0,
+    lastAnsweredAt: new Date('2025-01-01T00:00:00Z'),
+    nextReviewAt: new Date('2025-01-02T00:00:00Z'),
+    reviewInterval: 24,
+    masteryLevel: 0,
+    isCompleted: false,
+    ...overrides
+  };
+}
+
+const ids = (cards: Progress[]) => cards.map(card => card.id);
+
+// Cards in urgency order: topic a's first, then b's, then c's
+const cards = [
+  makeCard('a1', 'a'),
+  makeCard('a2', 'a'),
+  makeCard('a3', 'a'),
+  makeCard('b1', 'b'),
+  makeCard('b2', 'b'),
+  makeCard('c1', 'c'),
+];
+
+describe('ReviewOrderService', () => {
+  it('keeps the urgency order for due', () => {
+    expect(ids(reviewOrderService.order(cards, 'due'))).toEqual(ids(cards));
+  });
+
+  it('takes one card from each topic in turn for round robin', () => {
+    expect(ids(reviewOrderService.order(cards, 'round_robin'))).toEqual(['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+  });
+
+  it('gives higher priority topics a bigger share for weighted', () => {
+    const weighted = [
+      ...[1, 2, 3, 4, 5, 6].map(n => makeCard(`a${n}`, 'a')),
+      ...[1, 2, 3, 4, 5, 6].map(n => makeCard(`b${n}`, 'b')),
+    ];
+    const topics = [{ id: 'a', priority: 2 }, { id: 'b' }] as Topic[];
+    const firstSix = reviewOrderService.order(weighted, 'weighted', topics).slice(0, 6);
+
+    expect(firstSix.filter(card => card.topicId === 'a')).toHaveLength(4);
+    expect(ids(firstSix)).toEqual(['a1', 'b1', 'a2', 'a3', 'b2', 'a4']);
+  });
+
+  it('shuffles reproducibly with a seeded random source', () => {
+    const first = reviewOrderService.order(cards, 'random', [], createSeededRandom(3));
+    const second = reviewOrderService.order(cards, 'random', [], createSeededRandom(3));
+
+    expect(ids(first)).toEqual(ids(second));
+    expect([...ids(first)].sort()).toEqual([...ids(cards)].sort());
+  });
+
+  it('puts the hardest and most forgotten cards first', () => {
+    const mixed = [
+      makeCard('easy', 'a', { easeFactor: 2.8 }),
+      makeCard('unseen', 'a'),
+      makeCard('hard', 'a', { easeFactor: 1.3 }),
+      makeCard('fsrs', 'b', { schedulerType: 'fsrs', difficulty: 8 }),
+      makeCard('lapsed', 'b', { easeFactor: 1.3, lapses: 4 }),
+    ];
+
+    expect(ids(reviewOrderService.order(mixed, 'hardest_first'))).toEqual(['lapsed', 'hard', 'fsrs', 'unseen', 'easy']);
+  });
+
+  it('maps FSRS difficulty and SM-2 ease onto the same scale', () => {
+    expect(reviewOrderService.getDifficulty(makeCard('x', 'a', { schedulerType: 'fsrs', difficulty: 10 }))).toBe(1);
+    expect(reviewOrderService.getDifficulty(makeCard('x', 'a', { easeFactor: 3 }))).toBe(0);
+    expect(reviewOrderService.getDifficulty(makeCard('x', 'a'))).toBe(0.5);
+  });
+});
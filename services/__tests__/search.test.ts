@@ -0,0 +1,108 @@
+import { StudyCard, Topic } from '@/types';
+import { parseSearchQuery, searchService } from '../search';
+
+const now = new Date('2025-01-10T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const topics = [
+  { id: 'bio', title: 'Cell Biology' },
+  { id: 'chem', title: 'Chemistry' },
+] as Topic[];
+
+function makeCard(id: string, overrides: Partial<StudyCard> = {}, question: Partial<StudyCard['question']> = {}): StudyCard {
+  return {
+    id,
+    userId: 'user',
+    questionId: id,
+    topicId: 'bio',
+    correctAnswers: 3,
+    totalAttempts: 4,
+    lastAnsweredAt: hoursAgo(48),
+    nextReviewAt: hoursAgo(-24),
+    reviewInterval: 72,
+    masteryLevel: 0,
+    isCompleted: false,
+    learningState: 'review',
+    question: {
+      id,
+      topicId: overrides.topicId ?? 'bio',
+      userId: 'user',
+      question: `Question ${id}`,
+      answer: `Answer ${id}`,
+      type: 'open',
+      difficulty: 'medium',
+      createdAt: hoursAgo(24 * 30),
+      generatedByAI: true,
+      ...question
+    },
+    ...overrides
+  };
+}
+
+const cards = [
+  makeCard('mitochondria', {}, { question: 'What is the powerhouse of the cell?', answer: 'Mitochondria', difficulty: 'easy' }),
+  makeCard('leech', { lapses: 5, isLeech: true, nextReviewAt: hoursAgo(12) }, { difficulty: 'hard' }),
+  makeCard('water', { topicId: 'chem' }, { question: 'Formula of water?', answer: 'H2O', type: 'multiple_choice' }),
+  makeCard('fresh', { learningState: 'new', totalAttempts: 0, correctAnswers: 0 }, { createdAt: hoursAgo(2) }),
+];
+
+const search = (query: string) =>
+  searchService.filterCards(cards, query, topics, now).map(card => card.id);
+
+describe('parseSearchQuery', () => {
+  it('splits fields, operators and values', () => {
+    expect(parseSearchQuery('topic:Biology lapses>=3 -is:suspended cell')).toEqual([
+      { field: 'topic', operator: ':', value: 'Biology', negated: false },
+      { field: 'lapses', operator: '>=', value: '3', negated: false },
+      { field: 'is', operator: ':', value: 'suspended', negated: true },
+      { operator: ':', value: 'cell', negated: false },
+    ]);
+  });
+
+  it('keeps quoted values together', () => {
+    expect(parseSearchQuery('topic:"Cell Biology"')).toEqual([
+      { field: 'topic', operator: ':', value: 'Cell Biology', negated: false },
+    ]);
+  });
+
+  it('rejects malformed queries', () => {
+    expect(() => parseSearchQuery('topic:"Cell')).toThrow('Unclosed quote');
+    expect(() => parseSearchQuery('colour:red')).toThrow('Unknown search field');
+    expect(() => parseSearchQuery('is:sleeping')).toThrow('Unknown flag');
+    expect(() => parseSearchQuery('lapses>many')).toThrow('needs a number');
+    expect(() => parseSearchQuery('topic>Bio')).toThrow('can only be matched');
+    expect(() => parseSearchQuery('due<soon')).toThrow('is not a duration');
+    expect(() => parseSearchQuery('topic:')).toThrow('Missing value');
+  });
+});
+
+describe('SearchService.filterCards', () => {
+  it('matches free text against questions and answers', () => {
+    expect(search('powerhouse')).toEqual(['mitochondria']);
+    expect(search('h2o')).toEqual(['water']);
+  });
+
+  it('matches text fields whole, with wildcards', () => {
+    expect(search('topic:chem*')).toEqual(['water']);
+    expect(search('topic:"cell biology" difficulty:hard')).toEqual(['leech']);
+    expect(search('type:multiple_choice')).toEqual(['water']);
+  });
+
+  it('compares number fields', () => {
+    expect(search('lapses>3')).toEqual(['leech']);
+    expect(search('reps=0')).toEqual(['fresh']);
+  });
+
+  it('treats : on durations as within', () => {
+    expect(search('added:1d')).toEqual(['fresh']);
+    expect(search('due<0')).toEqual(['leech']);
+    expect(search('due:2d')).toEqual(['mitochondria', 'leech', 'water']);
+  });
+
+  it('matches flags and negated terms', () => {
+    expect(search('is:leech')).toEqual(['leech']);
+    expect(search('is:new')).toEqual(['fresh']);
+    expect(search('is:due')).toEqual(['leech']);
+    expect(search('-is:new -topic:Chemistry')).toEqual(['mitochondria', 'leech']);
+  });
+});
@@ -0,0 +1,40 @@
+import { simulatorService, SimulationConfig } from '../simulator';
+
+// Small runs keep the suite fast
+const config: SimulationConfig = { days: 20, cardCount: 20, learners: 2, seed: 5 };
+
+describe('SimulatorService', () => {
+  it('reports every simulated day', async () => {
+    const report = await simulatorService.run(config);
+
+    expect(report.config).toBe(config);
+    expect(report.days).toHaveLength(20);
+    expect(report.cardsIntroduced).toBeGreaterThan(0);
+    expect(report.cardsIntroduced).toBeLessThanOrEqual(20);
+    expect(report.reviewRetention).toBeGreaterThan(0);
+    expect(report.reviewRetention).toBeLessThanOrEqual(1);
+    expect(report.averageRecallAtEnd).toBeGreaterThan(0);
+    expect(report.averageRecallAtEnd).toBeLessThanOrEqual(1);
+  });
+
+  it('introduces no more new cards a day than the deck allows', async () => {
+    const report = await simulatorService.run({ ...config, deckOptions: { newCardsPerDay: 3 } });
+
+    report.days.forEach(day => expect(day.newCards).toBeLessThanOrEqual(3));
+    expect(report.days[0].newCards).toBe(3);
+  });
+
+  it('gives the same report for the same config and seed', async () => {
+    const [first, second] = await simulatorService.compare([config, config]);
+
+    expect(second.days).toEqual(first.days);
+    expect(second.answersPerDay).toBe(first.answersPerDay);
+  });
+
+  it('runs the FSRS scheduler', async () => {
+    const report = await simulatorService.run({ ...config, schedulerType: 'fsrs' });
+
+    expect(report.answersPerDay).toBeGreaterThan(0);
+    expect(report.reviewRetention).toBeGreaterThan(0);
+  });
+});
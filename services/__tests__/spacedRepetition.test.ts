@@ -0,0 +1,214 @@
+import { DEFAULT_DECK_OPTIONS } from '@/constants/DeckPresets';
+import { getDayKey } from '../dayBoundary';
+import { createMemoryRepositories } from '../memoryRepositories';
+import { ManualClock } from '../schedulers/clock';
+import { MemorySchedulingStore } from '../schedulingStore';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from '../spacedRepetition';
+
+const card = { learningState: 'review' as const, schedulerType: 'sm2' as const, reviewInterval: 10 * 24 };
+
+describe('SpacedRepetitionService.getStability', () => {
+  const service = new SpacedRepetitionService(DEFAULT_CONFIG, new MemorySchedulingStore());
+
+  it('uses the SM-2 interval as is at 90% desired retention', () => {
+    expect(service.getStability(card, 0.9)).toBeCloseTo(10);
+  });
+
+  it('takes the interval modifier out of SM-2 intervals', () => {
+    // Aiming for 95% recall halves intervals, so a 10 day interval means 20 days of stability
+    expect(service.getStability(card, 0.95)).toBeCloseTo(10 / service.getIntervalModifier(0.95));
+    expect(service.getStability(card, 0.95)).toBeGreaterThan(19);
+    expect(service.getStability(card, 0.8)).toBeLessThan(10);
+  });
+
+  it('uses FSRS stability directly', () => {
+    expect(service.getStability({ ...card, schedulerType: 'fsrs', stability: 4 }, 0.95)).toBe(4);
+  });
+
+  it('has no stability for new cards', () => {
+    expect(service.getStability({ ...card, learningState: 'new' })).toBeNull();
+  });
+});
+
+const now = new Date('2025-03-01T12:00:00Z');
+
+async function setup() {
+  const store = new MemorySchedulingStore();
+  const repositories = createMemoryRepositories(store);
+  await repositories.users.updateUser('user', { email: 'user@example.com' });
+  const topicId = await repositories.topics.createTopic('user', { title: 'Biology', description: '', color: '#007AFF' });
+  const questionId = await repositories.questions.createQuestion('user', {
+    topicId,
+    question: 'What is the powerhouse of the cell?',
+    answer: 'Mitochondria',
+    type: 'open',
+    difficulty: 'medium',
+    generatedByAI: false
+  });
+  // Added the day before
+  const addedAt = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  Object.assign(store.progress.get(`user_${questionId}`)!, { lastAnsweredAt: addedAt, nextReviewAt: addedAt });
+
+  const service = new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling, new ManualClock(now), () => 0.5);
+  return { store, repositories, service, topicId, questionId };
+}
+
+describe('SpacedRepetitionService.processAnswer', () => {
+  it('saves the progress, review log entry, daily count and totals together', async () => {
+    const { store, repositories, service, topicId, questionId } = await setup();
+
+    const { progress, undo } = await service.processAnswer('user', questionId, topicId, 'good', 12, 'session');
+
+    expect(await repositories.progress.getProgress(progress.id)).toMatchObject({
+      totalAttempts: 1,
+      correctAnswers: 1,
+      lastAnsweredAt: now,
+      learningState: progress.learningState
+    });
+    expect(await repositories.reviewLogs.getUserReviewLogs('user')).toEqual([
+      expect.objectContaining({ id: undo.reviewLogId, questionId, grade: 'good', previousLearningState: 'new', sessionId: 'session' })
+    ]);
+    expect(store.topics.get(topicId)?.dailyCounts).toEqual({ day: getDayKey(now), newCards: 1, reviews: 0 });
+    expect(store.users.get('user')).toMatchObject({ totalReviews: 1, correctReviews: 1, studySeconds: 12 });
+  });
+
+  it('counts answers to graduated cards as reviews', async () => {
+    const { store, service, topicId, questionId } = await setup();
+    store.progress.get(`user_${questionId}`)!.learningState = 'review';
+
+    const { undo } = await service.processAnswer('user', questionId, topicId, 'again');
+
+    expect(undo.countedAs).toBe('reviews');
+    expect(store.topics.get(topicId)?.dailyCounts).toMatchObject({ newCards: 0, reviews: 1 });
+    expect(store.users.get('user')).toMatchObject({ totalReviews: 1, correctReviews: 0 });
+  });
+
+  it('keeps a later answer from elsewhere but still logs this one', async () => {
+    const { store, repositories, service, topicId, questionId } = await setup();
+    const later = new Date(now.getTime() + 60 * 60 * 1000);
+    await repositories.progress.patchProgress(`user_${questionId}`, { totalAttempts: 5 });
+    store.progress.get(`user_${questionId}`)!.lastAnsweredAt = later;
+
+    await service.processAnswer('user', questionId, topicId, 'good');
+
+    expect(store.progress.get(`user_${questionId}`)).toMatchObject({ totalAttempts: 5, lastAnsweredAt: later });
+    expect(await repositories.reviewLogs.getUserReviewLogs('user')).toHaveLength(1);
+  });
+});
+
+describe('SpacedRepetitionService.undoAnswer', () => {
+  it('puts the card, review log, daily count and totals back as they were', async () => {
+    const { store, repositories, service, topicId, questionId } = await setup();
+    const before = await repositories.progress.getProgress(`user_${questionId}`);
+
+    const { undo } = await service.processAnswer('user', questionId, topicId, 'good', 12);
+    await service.undoAnswer(undo);
+
+    expect(await repositories.progress.getProgress(`user_${questionId}`)).toEqual(before);
+    expect(await repositories.reviewLogs.getUserReviewLogs('user')).toEqual([]);
+    expect(store.topics.get(topicId)?.dailyCounts).toEqual({ day: getDayKey(now), newCards: 0, reviews: 0 });
+    expect(store.users.get('user')).toMatchObject({ totalReviews: 0, correctReviews: 0, studySeconds: 0 });
+  });
+
+  it('undoes answers one at a time, latest first', async () => {
+    const { repositories, service, topicId, questionId } = await setup();
+
+    await service.processAnswer('user', questionId, topicId, 'good');
+    const afterFirst = await repositories.progress.getProgress(`user_${questionId}`);
+    const { undo } = await service.processAnswer('user', questionId, topicId, 'again');
+    await service.undoAnswer(undo);
+
+    expect(await repositories.progress.getProgress(`user_${questionId}`)).toEqual(afterFirst);
+    expect(await repositories.reviewLogs.getUserReviewLogs('user')).toHaveLength(1);
+  });
+
+  it('leaves a card answered again since alone, but takes the answer off the counters', async () => {
+    const { store, repositories, service, topicId, questionId } = await setup();
+
+    const { undo } = await service.processAnswer('user', questionId, topicId, 'good');
+    const answeredLater = new Date(now.getTime() + 60 * 60 * 1000);
+    store.progress.get(`user_${questionId}`)!.lastAnsweredAt = answeredLater;
+    await service.undoAnswer(undo);
+
+    expect(await repositories.progress.getProgress(`user_${questionId}`)).toMatchObject({ lastAnsweredAt: answeredLater });
+    expect(store.topics.get(topicId)?.dailyCounts).toMatchObject({ newCards: 0 });
+    expect(store.users.get('user')).toMatchObject({ totalReviews: 0 });
+  });
+
+  it('does nothing for an answer already undone', async () => {
+    const { store, service, topicId, questionId } = await setup();
+
+    const { undo } = await service.processAnswer('user', questionId, topicId, 'good');
+    await service.undoAnswer(undo);
+    await service.undoAnswer(undo);
+
+    expect(store.users.get('user')).toMatchObject({ totalReviews: 0 });
+  });
+});
+
+describe('SpacedRepetitionService.getQuestionsForReview', () => {
+  // A topic on a preset of two new cards and two reviews a day, with three of each waiting
+  async function setupLimits(dailyCounts?: { day: string; newCards: number; reviews: number }) {
+    const { store, repositories, service, topicId, questionId } = await setup();
+    const presetId = await repositories.presets.createPreset('user', {
+      ...DEFAULT_DECK_OPTIONS,
+      name: 'Light',
+      newCardsPerDay: 2,
+      reviewsPerDay: 2
+    });
+    await repositories.topics.updateTopic(topicId, { presetId, dailyCounts });
+
+    const questionIds = [questionId];
+    for (const question of ['Unit of heredity?', 'Site of photosynthesis?', 'Basic unit of life?', 'Protein factory?', 'Cell control centre?']) {
+      questionIds.push(await repositories.questions.createQuestion('user', {
+        topicId,
+        question,
+        answer: 'Answer',
+        type: 'open',
+        difficulty: 'medium',
+        generatedByAI: false
+      }));
+    }
+    const dueAt = new Date(now.getTime() - 60 * 60 * 1000);
+    questionIds.slice(0, 3).forEach(id => Object.assign(store.progress.get(`user_${id}`)!, {
+      learningState: 'review',
+      reviewInterval: 24,
+      lastAnsweredAt: new Date(dueAt.getTime() - 24 * 60 * 60 * 1000),
+      nextReviewAt: dueAt
+    }));
+    return { store, service, questionIds };
+  }
+
+  const countStates = (cards: { learningState?: string }[]) => ({
+    reviews: cards.filter(card => card.learningState === 'review').length,
+    newCards: cards.filter(card => card.learningState === 'new').length
+  });
+
+  it("keeps to the preset's daily limits", async () => {
+    const { service } = await setupLimits();
+
+    expect(countStates(await service.getQuestionsForReview('user'))).toEqual({ reviews: 2, newCards: 2 });
+  });
+
+  it('takes what was already studied today off the limits', async () => {
+    const { service } = await setupLimits({ day: getDayKey(now), newCards: 1, reviews: 2 });
+
+    expect(countStates(await service.getQuestionsForReview('user'))).toEqual({ reviews: 0, newCards: 1 });
+  });
+
+  it('ignores counts from an earlier day', async () => {
+    const { service } = await setupLimits({ day: '2025-02-28', newCards: 2, reviews: 2 });
+
+    expect(countStates(await service.getQuestionsForReview('user'))).toEqual({ reviews: 2, newCards: 2 });
+  });
+
+  it('leaves learning steps out of the review limit', async () => {
+    const { store, service, questionIds } = await setupLimits({ day: getDayKey(now), newCards: 0, reviews: 2 });
+    store.progress.get(`user_${questionIds[0]}`)!.learningState = 'learning';
+
+    const cards = await service.getQuestionsForReview('user');
+
+    expect(cards[0].questionId).toBe(questionIds[0]);
+    expect(countStates(cards)).toEqual({ reviews: 0, newCards: 2 });
+  });
+});
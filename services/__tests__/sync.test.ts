@@ -0,0 +1,140 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnswerCommit } from '@/types';
+import { LocalStore } from '../localStore';
+import { createMemoryRepositories } from '../memoryRepositories';
+import { createOfflineRepositories, SyncService } from '../sync';
+
+const topicData = { title: 'Biology', description: '', color: '#007AFF' };
+const questionData = (topicId: string) => ({
+  topicId,
+  question: 'What is the powerhouse of the cell?',
+  answer: 'Mitochondria',
+  type: 'open' as const,
+  difficulty: 'medium' as const,
+  generatedByAI: false
+});
+
+// Only ever handed to a mocked remote
+const commit = { userId: 'user', questionId: 'question', topicId: 'topic', updates: {}, day: '2025-03-01' } as AnswerCommit;
+
+// Offline repositories over an in-memory remote
+function setup() {
+  const remote = createMemoryRepositories();
+  const local = new LocalStore('test:');
+  const sync = new SyncService(local, remote, false);
+  return { remote, local, sync, repositories: createOfflineRepositories(remote, local, sync) };
+}
+
+beforeEach(() => AsyncStorage.clear());
+
+describe('SyncService outbox', () => {
+  it('saves new topics, questions and cards on the device and sends them under the same IDs', async () => {
+    const { remote, local, sync, repositories } = setup();
+
+    const topicId = await repositories.topics.createTopic('user', topicData);
+    const questionId = await repositories.questions.createQuestion('user', questionData(topicId));
+    expect(await local.getQuestion(questionId)).toMatchObject({ topicId });
+    expect(await local.getProgress(`user_${questionId}`)).toMatchObject({ learningState: 'new' });
+
+    await sync.flush();
+
+    expect(await sync.getPendingCount()).toBe(0);
+    expect(await remote.topics.getTopic(topicId)).toMatchObject({ title: 'Biology', questionCount: 1 });
+    expect(await remote.questions.getQuestion(questionId)).toMatchObject({ topicId });
+    expect(await remote.progress.getProgress(`user_${questionId}`)).toMatchObject({ learningState: 'new' });
+  });
+
+  it('keeps a write that failed queued and retries it later', async () => {
+    jest.useFakeTimers();
+    try {
+      const { remote, sync, repositories } = setup();
+      jest.spyOn(remote.topics, 'createTopic').mockRejectedValueOnce(new Error('unavailable'));
+
+      const topicId = await repositories.topics.createTopic('user', topicData);
+      await sync.flush();
+      expect(await sync.getPendingCount()).toBe(1);
+      expect(await remote.topics.getTopic(topicId)).toBeNull();
+
+      jest.runOnlyPendingTimers();
+      await sync.flush();
+      expect(await sync.getPendingCount()).toBe(0);
+      expect(await remote.topics.getTopic(topicId)).toMatchObject({ title: 'Biology' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('keeps unsent topics on the device when refreshing', async () => {
+    jest.useFakeTimers();
+    try {
+      const { remote, sync, repositories } = setup();
+      await remote.users.updateUser('user', { email: 'user@example.com' });
+      jest.spyOn(remote.topics, 'createTopic').mockRejectedValue(new Error('unavailable'));
+
+      const topicId = await repositories.topics.createTopic('user', topicData);
+      await sync.refresh('user');
+
+      expect((await repositories.topics.getUserTopics('user')).map(topic => topic.id)).toEqual([topicId]);
+    } finally {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    }
+  });
+
+  it('moves writes the remote rejects aside without holding up the rest', async () => {
+    const { remote, sync, repositories } = setup();
+    jest.spyOn(remote.topics, 'createTopic')
+      .mockRejectedValueOnce(Object.assign(new Error('denied'), { code: 'permission-denied' }));
+
+    await repositories.topics.createTopic('user', topicData);
+    const secondId = await repositories.topics.createTopic('user', { ...topicData, title: 'Chemistry' });
+    await sync.flush();
+
+    expect(await sync.getPendingCount()).toBe(0);
+    expect((await sync.getFailedWrites()).map(entry => entry.operation.type)).toEqual(['createTopic']);
+    expect((await remote.topics.getUserTopics('user')).map(topic => topic.id)).toEqual([secondId]);
+  });
+
+  it('discards an unsent answer, but not the one at the front of the queue', async () => {
+    const { remote, sync } = setup();
+    let release!: () => void;
+    const commitAnswer = jest.spyOn(remote.scheduling, 'commitAnswer')
+      .mockImplementationOnce(() => new Promise(resolve => {
+        release = () => resolve('first');
+      }));
+
+    await sync.enqueue({ type: 'commitAnswer', reviewId: 'first', commit });
+    await sync.enqueue({ type: 'commitAnswer', reviewId: 'second', commit });
+
+    // The first may already be on its way
+    expect(await sync.discardAnswer('first')).toBe(false);
+    expect(await sync.discardAnswer('second')).toBe(true);
+
+    release();
+    await sync.flush();
+    expect(commitAnswer).toHaveBeenCalledTimes(1);
+    expect(commitAnswer).toHaveBeenCalledWith(commit, 'first');
+    expect(await sync.getPendingCount()).toBe(0);
+  });
+
+  it('moves topics to the trash on the device first, under the same entry remotely', async () => {
+    const { remote, local, sync, repositories } = setup();
+    const topicId = await repositories.topics.createTopic('user', topicData);
+    await repositories.questions.createQuestion('user', questionData(topicId));
+    await sync.flush();
+
+    const entry = await repositories.trash.trashTopic(topicId, new Date('2030-01-01T00:00:00Z'));
+    expect(await local.getTopic(topicId)).toBeNull();
+    await sync.flush();
+
+    expect(await remote.topics.getTopic(topicId)).toBeNull();
+    expect(await remote.trash.getUserTrash('user')).toEqual([expect.objectContaining({ id: entry.id, itemCount: 3 })]);
+    expect(await repositories.trash.getUserTrash('user')).toHaveLength(1);
+
+    await repositories.trash.restore(entry.id);
+    expect(await local.getTopic(topicId)).toMatchObject({ title: 'Biology' });
+    expect(await repositories.trash.getUserTrash('user')).toEqual([]);
+    await sync.flush();
+    expect(await remote.topics.getTopic(topicId)).toMatchObject({ title: 'Biology' });
+  });
+});
@@ -0,0 +1,99 @@
+import { createMemoryRepositories } from '../memoryRepositories';
+import { TrashService } from '../trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function setup() {
+  const repositories = createMemoryRepositories();
+  await repositories.users.updateUser('user', { email: 'user@example.com', trashRetentionDays: 7 });
+  const topicId = await repositories.topics.createTopic('user', { title: 'Biology', description: '', color: '#007AFF' });
+  const questionIds: string[] = [];
+  for (const question of ['Powerhouse of the cell?', 'Unit of heredity?']) {
+    questionIds.push(await repositories.questions.createQuestion('user', {
+      topicId,
+      question,
+      answer: 'Answer',
+      type: 'open',
+      difficulty: 'medium',
+      generatedByAI: false
+    }));
+  }
+  return { repositories, trash: new TrashService(repositories), topicId, questionIds };
+}
+
+describe('TrashService', () => {
+  it('moves a topic with its questions and progress to the trash for the retention period', async () => {
+    const { repositories, trash, topicId } = await setup();
+
+    const entry = await trash.deleteTopic('user', topicId);
+
+    expect(entry).toMatchObject({ kind: 'topic', itemId: topicId, title: 'Biology', itemCount: 5 });
+    expect(entry.purgeAt.getTime() - entry.deletedAt.getTime()).toBeGreaterThanOrEqual(7 * DAY - 1000);
+    expect(await repositories.topics.getUserTopics('user')).toEqual([]);
+    expect(await repositories.questions.getTopicQuestions(topicId)).toEqual([]);
+    expect(await repositories.progress.getTopicProgress('user', topicId)).toEqual([]);
+    expect(await trash.getTrash('user')).toEqual([entry]);
+  });
+
+  it('restores a topic exactly as it was', async () => {
+    const { repositories, trash, topicId } = await setup();
+    const topic = await repositories.topics.getTopic(topicId);
+    const progress = await repositories.progress.getTopicProgress('user', topicId);
+
+    await trash.restore(await trash.deleteTopic('user', topicId));
+
+    expect(await repositories.topics.getTopic(topicId)).toEqual(topic);
+    expect(await repositories.progress.getTopicProgress('user', topicId)).toEqual(progress);
+    expect(await trash.getTrash('user')).toEqual([]);
+  });
+
+  it('keeps topic counts right when a question goes and comes back', async () => {
+    const { repositories, trash, topicId, questionIds } = await setup();
+    await repositories.progress.patchProgress(`user_${questionIds[0]}`, { isCompleted: true });
+    await repositories.topics.updateTopic(topicId, { completedQuestions: 1 });
+
+    const entry = await trash.deleteQuestion('user', questionIds[0]);
+    expect(entry.itemCount).toBe(2);
+    expect(await repositories.topics.getTopic(topicId)).toMatchObject({ questionCount: 1, completedQuestions: 0 });
+
+    await trash.restore(entry);
+    expect(await repositories.topics.getTopic(topicId)).toMatchObject({ questionCount: 2, completedQuestions: 1 });
+    expect(await repositories.progress.getProgress(`user_${questionIds[0]}`)).toMatchObject({ isCompleted: true });
+  });
+
+  it('only restores a question once its topic is back', async () => {
+    const { trash, topicId, questionIds } = await setup();
+    const questionEntry = await trash.deleteQuestion('user', questionIds[0]);
+    const topicEntry = await trash.deleteTopic('user', topicId);
+
+    await expect(trash.restore(questionEntry)).rejects.toThrow('Restore the topic');
+
+    await trash.restore(topicEntry);
+    await trash.restore(questionEntry);
+    expect(await trash.getTrash('user')).toEqual([]);
+  });
+
+  it('deletes an entry for good', async () => {
+    const { repositories, trash, topicId } = await setup();
+    const entry = await trash.deleteTopic('user', topicId);
+
+    await trash.deleteForever(entry);
+
+    expect(await trash.getTrash('user')).toEqual([]);
+    await expect(repositories.trash.restore(entry.id)).rejects.toThrow('not found');
+  });
+
+  it('purges only entries past their retention period', async () => {
+    const { trash, topicId, questionIds } = await setup();
+    const questionEntry = await trash.deleteQuestion('user', questionIds[0]);
+    const topicEntry = await trash.deleteTopic('user', topicId);
+
+    const purged = await trash.purgeExpired('user', new Date(Date.now() + DAY));
+
+    expect(purged).toBe(0);
+    expect(await trash.getTrash('user')).toHaveLength(2);
+
+    expect(await trash.purgeExpired('user', new Date(topicEntry.purgeAt.getTime() + 1000))).toBe(2);
+    expect((await trash.getTrash('user')).map(entry => entry.id)).not.toContain(questionEntry.id);
+  });
+});
@@ -0,0 +1,98 @@
+import { addStudyDays, getDayStart } from '../dayBoundary';
+import { createMemoryRepositories } from '../memoryRepositories';
+import { MemorySchedulingStore } from '../schedulingStore';
+import { VacationService } from '../vacation';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-03-01T12:00:00Z');
+// Leaving in two days for four days
+const firstDay = new Date(now.getTime() + 2 * DAY);
+const dueWhileAway = new Date(now.getTime() + 3 * DAY);
+
+// One card that will hold up while away and one that won't, both due mid-vacation
+async function setup() {
+  const store = new MemorySchedulingStore();
+  const repositories = createMemoryRepositories(store);
+  await repositories.users.updateUser('user', { email: 'user@example.com' });
+  const topicId = await repositories.topics.createTopic('user', { title: 'Biology', description: '', color: '#007AFF' });
+
+  const addCard = async (question: string, intervalDays: number) => {
+    const questionId = await repositories.questions.createQuestion('user', {
+      topicId,
+      question,
+      answer: 'Answer',
+      type: 'open',
+      difficulty: 'medium',
+      generatedByAI: false
+    });
+    Object.assign(store.progress.get(`user_${questionId}`)!, {
+      learningState: 'review',
+      schedulerType: 'sm2',
+      reviewInterval: intervalDays * 24,
+      lastAnsweredAt: new Date(dueWhileAway.getTime() - intervalDays * DAY),
+      nextReviewAt: dueWhileAway
+    });
+    return `user_${questionId}`;
+  };
+
+  const steady = await addCard('Powerhouse of the cell?', 100);
+  const fragile = await addCard('Unit of heredity?', 1);
+  return { repositories, vacation: new VacationService(repositories), steady, fragile };
+}
+
+describe('VacationService', () => {
+  it('postpones cards that will hold up and brings the rest forward', async () => {
+    const { repositories, vacation, steady, fragile } = await setup();
+
+    const planned = await vacation.scheduleVacation('user', firstDay, 4, now);
+
+    expect(planned.startsAt).toEqual(getDayStart(firstDay));
+    expect(planned.endsAt).toEqual(getDayStart(addStudyDays(firstDay, 4)));
+    expect(await repositories.progress.getProgress(steady)).toMatchObject({
+      nextReviewAt: planned.endsAt,
+      vacationId: planned.id
+    });
+    expect(await repositories.progress.getProgress(fragile)).toMatchObject({ nextReviewAt: now, vacationId: planned.id });
+    expect(planned.shifts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ originalDueAt: dueWhileAway, newDueAt: planned.endsAt, preReviewed: false }),
+      expect.objectContaining({ originalDueAt: dueWhileAway, newDueAt: now, preReviewed: true })
+    ]));
+  });
+
+  it('postpones everything once the vacation has started', async () => {
+    const { repositories, vacation, fragile } = await setup();
+
+    const planned = await vacation.scheduleVacation('user', now, 4, now);
+
+    expect(planned.shifts.every(shift => !shift.preReviewed)).toBe(true);
+    expect((await repositories.progress.getProgress(fragile))?.nextReviewAt.getTime()).toBeGreaterThanOrEqual(
+      planned.endsAt.getTime()
+    );
+  });
+
+  it('turns down vacations that overlap or are already over', async () => {
+    const { vacation } = await setup();
+    await vacation.scheduleVacation('user', firstDay, 4, now);
+
+    await expect(vacation.scheduleVacation('user', dueWhileAway, 2, now)).rejects.toThrow('overlaps');
+    await expect(vacation.scheduleVacation('user', new Date(now.getTime() - 10 * DAY), 2, now)).rejects.toThrow('ended');
+    await expect(vacation.scheduleVacation('user', firstDay, 0, now)).rejects.toThrow('at least one day');
+  });
+
+  it('moves shifted cards back when cancelled, except ones answered since', async () => {
+    const { repositories, vacation, steady, fragile } = await setup();
+    const planned = await vacation.scheduleVacation('user', firstDay, 4, now);
+    // Answering a card clears its vacation and sets its own due date
+    const answeredDue = new Date(now.getTime() + 10 * DAY);
+    await repositories.progress.clearVacationShift(fragile);
+    await repositories.progress.rescheduleProgress(fragile, answeredDue);
+
+    await vacation.cancelVacation(planned);
+
+    const restored = await repositories.progress.getProgress(steady);
+    expect(restored?.nextReviewAt).toEqual(dueWhileAway);
+    expect(restored?.vacationId).toBeUndefined();
+    expect(await repositories.progress.getProgress(fragile)).toMatchObject({ nextReviewAt: answeredDue });
+    expect(await vacation.getUpcomingVacations('user', now)).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { BacklogRecovery, Progress } from '@/types';
+import { addStudyDays, getDayKey, getDayStart } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Backlog Recovery
+ * After a break, overdue cards are spread over a few study days instead of
+ * landing at once. Cards most likely to be forgotten come first, and new cards
+ * are paused until the backlog is worked through.
+ */
+
+export interface BacklogStatus {
+  overdueCount: number; // Cards due before today's study day started
+  reviewsPerDay: number; // Recent daily review pace
+  isHeavy: boolean;
+  suggestedDays: number;
+}
+
+export interface ActiveRecovery extends BacklogRecovery {
+  remaining: number; // Backlog cards not answered since recovery started
+}
+
+// Spreads offered when starting recovery
+export const BACKLOG_DAY_OPTIONS = [3, 5, 7, 14];
+
+// Fewer overdue cards than this never count as a backlog
+const MIN_BACKLOG = 30;
+// A backlog is heavy once it exceeds this many days of reviews at the usual pace
+const HEAVY_BACKLOG_DAYS = 2;
+const DEFAULT_REVIEWS_PER_DAY = 20;
+const PACE_WINDOW_DAYS = 30;
+
+export class BacklogService {
+  private scheduling: SpacedRepetitionService;
+
+  constructor(private repositories: Repositories = appRepositories) {
+    this.scheduling = new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling);
+  }
+
+  /**
+   * Count overdue cards and compare them to the user's usual pace
+   */
+  async getStatus(userId: string, now: Date = new Date()): Promise<BacklogStatus> {
+    const [overdue, reviewsPerDay] = await Promise.all([
+      this.getOverdueCards(userId, now),
+      this.getReviewPace(userId, now)
+    ]);
+    const daysOfWork = Math.ceil(overdue.length / reviewsPerDay);
+
+    return {
+      overdueCount: overdue.length,
+      reviewsPerDay,
+      isHeavy: overdue.length >= Math.max(MIN_BACKLOG, reviewsPerDay * HEAVY_BACKLOG_DAYS),
+      suggestedDays: BACKLOG_DAY_OPTIONS.find(days => days >= daysOfWork) ??
+        BACKLOG_DAY_OPTIONS[BACKLOG_DAY_OPTIONS.length - 1]
+    };
+  }
+
+  /**
+   * Spread overdue cards evenly over `days` study days starting today, those
+   * most likely to be forgotten first. Only due dates change. The recovery is
+   * saved before any card moves, so a spread that fails part way is still
+   * tracked.
+   */
+  async startRecovery(userId: string, days: number, now: Date = new Date()): Promise<BacklogRecovery> {
+    const overdue = (await this.getOverdueCards(userId, now)).sort((a, b) =>
+      this.scheduling.getRetrievability(a, now) - this.scheduling.getRetrievability(b, now)
+    );
+    const perDay = Math.ceil(overdue.length / days);
+    const progressIds = overdue.map(progress => `${progress.userId}_${progress.questionId}`);
+
+    const recovery: BacklogRecovery = {
+      startedAt: now,
+      endsAt: getDayStart(addStudyDays(now, days)),
+      days,
+      cardCount: overdue.length,
+      progressIds
+    };
+    await this.repositories.users.setBacklogRecovery(userId, recovery);
+
+    // Today's share stays due as it is
+    await this.repositories.progress.rescheduleAll(
+      progressIds
+        .map((progressId, index) => ({ progressId, day: Math.floor(index / perDay) }))
+        .filter(({ day }) => day > 0)
+        .map(({ progressId, day }) => ({ progressId, nextReviewAt: getDayStart(addStudyDays(now, day)) }))
+    );
+    return recovery;
+  }
+
+  /**
+   * The recovery in progress, or null. Recovery ends once every backlog card
+   * has been answered or its last day has passed.
+   */
+  async getRecovery(userId: string, now: Date = new Date()): Promise<ActiveRecovery | null> {
+    const user = await this.repositories.users.getUser(userId);
+    const recovery = user?.backlogRecovery;
+    if (!recovery) return null;
+
+    const backlog = new Set(recovery.progressIds);
+    const remaining = now < recovery.endsAt
+      ? (await this.repositories.progress.getProgressDueBetween(userId, new Date(0), recovery.endsAt))
+          .filter(p =>
+            backlog.has(`${p.userId}_${p.questionId}`) &&
+            this.isScheduled(p) &&
+            p.lastAnsweredAt < recovery.startedAt
+          )
+          .length
+      : 0;
+
+    if (remaining === 0) {
+      await this.repositories.users.setBacklogRecovery(userId, null);
+      return null;
+    }
+
+    return { ...recovery, remaining };
+  }
+
+  /**
+   * Stop recovery early so new cards are introduced again. Due dates already
+   * spread out are kept.
+   */
+  async endRecovery(userId: string): Promise<void> {
+    await this.repositories.users.setBacklogRecovery(userId, null);
+  }
+
+  private async getOverdueCards(userId: string, now: Date): Promise<Progress[]> {
+    const progress = await this.repositories.progress.getProgressDueBetween(userId, new Date(0), getDayStart(now));
+    return progress.filter(p => this.isScheduled(p) && p.nextReviewAt < getDayStart(now));
+  }
+
+  /**
+   * Average reviews per study day on the days the user studied recently
+   */
+  private async getReviewPace(userId: string, now: Date): Promise<number> {
+    const logs = await this.repositories.reviewLogs.getUserReviewLogs(userId, addStudyDays(now, -PACE_WINDOW_DAYS));
+    const studyDays = new Set(logs.map(log => getDayKey(log.reviewedAt)));
+    return studyDays.size > 0 ? logs.length / studyDays.size : DEFAULT_REVIEWS_PER_DAY;
+  }
+
+  private isScheduled(progress: Progress): boolean {
+    return progress.learningState !== 'new' && !progress.suspended;
+  }
+}
+
+// Export singleton instance
+export const backlogService = new BacklogService();
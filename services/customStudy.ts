@@ -0,0 +1,94 @@
+import { CustomStudyEffect, CustomStudyFilter, Progress, ReviewGrade, StudyCard } from '@/types';
+import { addStudyDays } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+import { addMinutes } from './schedulers';
+import { SearchService } from './search';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Custom Study
+ * Sessions over a hand-picked set of cards (topics, difficulty, card state,
+ * recent failures or a search query). Answers never go through the scheduler
+ * or the review log, so extra practice doesn't distort intervals, daily limits
+ * or statistics.
+ */
+
+export class CustomStudyService {
+  private scheduling: SpacedRepetitionService;
+  private search: SearchService;
+
+  constructor(private repositories: Repositories = appRepositories) {
+    this.scheduling = new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling);
+    this.search = new SearchService(repositories);
+  }
+
+  /**
+   * Cards matching a filter, least likely to be recalled first
+   */
+  async getCards(
+    userId: string,
+    filter: CustomStudyFilter,
+    limit: number = 50,
+    now: Date = new Date()
+  ): Promise<StudyCard[]> {
+    const failedQuestionIds = filter.failedWithinDays
+      ? await this.getFailedQuestionIds(userId, filter.failedWithinDays, now)
+      : null;
+
+    const { cards, topics } = await this.search.loadCards(userId, filter.topicIds);
+    const matching = filter.query ? this.search.filterCards(cards, filter.query, topics, now) : cards;
+
+    return matching
+      .filter(card =>
+        !card.suspended &&
+        (!filter.difficulties?.length || filter.difficulties.includes(card.question.difficulty)) &&
+        (!filter.cardStates?.length || filter.cardStates.includes(card.learningState ?? 'review')) &&
+        (!failedQuestionIds || failedQuestionIds.has(card.questionId))
+      )
+      .sort((a, b) =>
+        this.scheduling.getRetrievability(a, now) - this.scheduling.getRetrievability(b, now)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Apply an answer's effect on the real schedule. Returns the card as it was
+   * when the schedule changed, so the answer can be undone, otherwise null.
+   */
+  async recordAnswer(
+    card: StudyCard,
+    grade: ReviewGrade,
+    effect: CustomStudyEffect,
+    now: Date = new Date()
+  ): Promise<Progress | null> {
+    if (effect !== 'preview' || grade !== 'again') return null;
+
+    // Previewing a forgotten card brings its next review forward to the first
+    // relearning step; interval, ease and counters are left alone
+    const { options } = await this.scheduling.resolveTopicSettings(card.userId, card.topicId);
+    const dueAt = addMinutes(now, options.relearningSteps[0] ?? 10);
+    if (dueAt >= card.nextReviewAt || card.learningState === 'new') return null;
+
+    await this.repositories.progress.rescheduleProgress(this.getProgressId(card), dueAt);
+    return card;
+  }
+
+  /**
+   * Put back the due date a preview answer moved
+   */
+  async undoAnswer(previous: Progress): Promise<void> {
+    await this.repositories.progress.rescheduleProgress(this.getProgressId(previous), previous.nextReviewAt);
+  }
+
+  private async getFailedQuestionIds(userId: string, days: number, now: Date): Promise<Set<string>> {
+    const logs = await this.repositories.reviewLogs.getUserReviewLogs(userId, addStudyDays(now, -(days - 1)));
+    return new Set(logs.filter(log => log.grade === 'again').map(log => log.questionId));
+  }
+
+  private getProgressId(progress: Progress): string {
+    return `${progress.userId}_${progress.questionId}`;
+  }
+}
+
+// Export singleton instance
+export const customStudyService = new CustomStudyService();
@@ -0,0 +1,174 @@
+/**
+ * Day boundary helpers
+ * Daily limits, counters, streaks and reminders are keyed by the study day a
+ * moment falls on. A study day runs from `dayStartHour` to `dayStartHour` the
+ * next calendar day, on the wall clock of the user's stored timezone, so late
+ * night sessions count towards the day they started and travelling doesn't
+ * move the boundary.
+ */
+
+export interface DayBoundary {
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  dayStartHour: number; // 0-23
+}
+
+export const DEFAULT_DAY_START_HOUR = 4;
+
+/**
+ * The device's timezone, used until the user has stored one
+ */
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+let currentBoundary: DayBoundary = {
+  timezone: getDeviceTimezone(),
+  dayStartHour: DEFAULT_DAY_START_HOUR
+};
+
+/**
+ * Boundary used when none is passed explicitly
+ */
+export function getDayBoundary(): DayBoundary {
+  return currentBoundary;
+}
+
+/**
+ * Apply the user's stored settings
+ */
+export function setDayBoundary(boundary: Partial<DayBoundary>): void {
+  currentBoundary = {
+    timezone: boundary.timezone || currentBoundary.timezone,
+    dayStartHour: boundary.dayStartHour ?? currentBoundary.dayStartHour
+  };
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+function getWallClock(date: Date, timezone: string): WallClock {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    }));
+  }
+
+  const parts = formatters.get(timezone)!.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour') % 24,
+    minute: part('minute')
+  };
+}
+
+/**
+ * Instant at which a timezone's wall clock shows the given time
+ */
+function fromWallClock(clock: WallClock, timezone: string): Date {
+  const target = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+
+  // Correct for the zone's offset; a second pass settles DST transitions
+  let guess = target;
+  for (let i = 0; i < 2; i++) {
+    const shown = getWallClock(new Date(guess), timezone);
+    const shownUtc = Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute);
+    guess += target - shownUtc;
+  }
+  return new Date(guess);
+}
+
+/**
+ * Calendar date (in the boundary's timezone) of the study day containing a date
+ */
+function getStudyDate(date: Date, boundary: DayBoundary): { year: number; month: number; day: number } {
+  const clock = getWallClock(date, boundary.timezone);
+  // Before the day start hour still belongs to the previous calendar day
+  const calendar = new Date(Date.UTC(clock.year, clock.month - 1, clock.day));
+  if (clock.hour < boundary.dayStartHour) {
+    calendar.setUTCDate(calendar.getUTCDate() - 1);
+  }
+
+  return {
+    year: calendar.getUTCFullYear(),
+    month: calendar.getUTCMonth() + 1,
+    day: calendar.getUTCDate()
+  };
+}
+
+/**
+ * Start of the study day containing a date
+ */
+export function getDayStart(date: Date = new Date(), boundary: DayBoundary = currentBoundary): Date {
+  return addStudyDays(date, 0, boundary);
+}
+
+/**
+ * Start of the study day `days` days after the one containing a date
+ */
+export function addStudyDays(
+  date: Date,
+  days: number,
+  boundary: DayBoundary = currentBoundary
+): Date {
+  const { year, month, day } = getStudyDate(date, boundary);
+  const target = new Date(Date.UTC(year, month - 1, day + days));
+
+  return fromWallClock({
+    year: target.getUTCFullYear(),
+    month: target.getUTCMonth() + 1,
+    day: target.getUTCDate(),
+    hour: boundary.dayStartHour,
+    minute: 0
+  }, boundary.timezone);
+}
+
+/**
+ * Study day a date falls on, as YYYY-MM-DD
+ */
+export function getDayKey(date: Date = new Date(), boundary: DayBoundary = currentBoundary): string {
+  const { year, month, day } = getStudyDate(date, boundary);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Instant a "HH:MM" wall-clock time occurs during the study day containing a date.
+ * Times before the day start hour fall on the next calendar day.
+ */
+export function getTimeOnStudyDay(
+  date: Date,
+  time: string,
+  boundary: DayBoundary = currentBoundary
+): Date {
+  const [hour, minute] = time.split(':').map(Number);
+  const { year, month, day } = getStudyDate(date, boundary);
+  const calendar = new Date(Date.UTC(year, month - 1, day + (hour < boundary.dayStartHour ? 1 : 0)));
+
+  return fromWallClock({
+    year: calendar.getUTCFullYear(),
+    month: calendar.getUTCMonth() + 1,
+    day: calendar.getUTCDate(),
+    hour,
+    minute: minute || 0
+  }, boundary.timezone);
+}
@@ -1,25 +1,279 @@
+import { BUILT_IN_PRESETS, DEFAULT_DECK_OPTIONS } from '@/constants/DeckPresets';
 import { db } from '@/lib/firebase';
-import { Progress, Question, Topic } from '@/types';
+import { AnswerCommit, AnswerUndo, BacklogRecovery, DailyCounts, DeckPreset, DueQuestionsCursor, DueQuestionsPage, NotificationSettings, Progress, Question, ReviewLog, SavedSearch, SchedulerType, Topic, TrashEntry, User, Vacation, VacationShift } from '@/types';
 import {
     addDoc,
     collection,
     deleteDoc,
+    deleteField,
     doc,
+    DocumentData,
+    documentId,
+    DocumentReference,
+    DocumentSnapshot,
+    getCountFromServer,
     getDoc,
     getDocs,
+    increment,
     limit,
     onSnapshot,
     orderBy,
     query,
+    QueryDocumentSnapshot,
+    runTransaction,
+    setDoc,
+    startAfter,
     Timestamp,
     updateDoc,
-    where
+    where,
+    writeBatch,
+    WriteBatch
 } from 'firebase/firestore';
+import type { ProgressPatch, ProgressReschedule, Repositories } from './repositories';
+import type { SchedulingStore } from './schedulingStore';
+
+// Page size when loading due questions
+const DUE_PAGE_SIZE = 100;
+
+// Filters shared by the due question queries. Cards saved without a learning
+// state only match once syncing has set it (see setReviewState).
+function dueQuestionsConstraints(userId: string, until: Date) {
+  return [
+    where('userId', '==', userId),
+    where('nextReviewAt', '<=', Timestamp.fromDate(until)),
+    where('learningState', 'in', ['learning', 'review', 'relearning'])
+  ];
+}
+
+// Progress fields as stored: dates as Timestamps, unset fields left out
+function toProgressData(progress: Partial<Progress>): DocumentData {
+  const { id, ...fields } = progress;
+  const data: DocumentData = { ...fields };
+
+  if (progress.lastAnsweredAt) data.lastAnsweredAt = Timestamp.fromDate(progress.lastAnsweredAt);
+  if (progress.nextReviewAt) data.nextReviewAt = Timestamp.fromDate(progress.nextReviewAt);
+
+  // Firestore rejects undefined fields
+  Object.keys(data).forEach(key => data[key] === undefined && delete data[key]);
+  return data;
+}
+
+// Review log entry as stored
+function toReviewLogData(log: Omit<ReviewLog, 'id'>): DocumentData {
+  const entry: DocumentData = {
+    ...log,
+    newDueAt: Timestamp.fromDate(log.newDueAt),
+    reviewedAt: Timestamp.fromDate(log.reviewedAt)
+  };
+
+  if (log.previousDueAt) {
+    entry.previousDueAt = Timestamp.fromDate(log.previousDueAt);
+  }
+
+  // Firestore rejects undefined fields
+  Object.keys(entry).forEach(key => entry[key] === undefined && delete entry[key]);
+  return entry;
+}
+
+// A vacation's shift as stored, with its dates as Timestamps
+type StoredVacationShift = Omit<VacationShift, 'originalDueAt' | 'newDueAt'> & {
+  originalDueAt: Timestamp;
+  newDueAt: Timestamp;
+};
+
+// A topic's daily counts after studying (or un-studying) a card on `day`
+function addToDailyCounts(
+  counts: DailyCounts | undefined,
+  day: string,
+  kind: 'newCards' | 'reviews',
+  amount: number
+): DailyCounts {
+  const updated: DailyCounts = counts?.day === day ? { ...counts } : { day, newCards: 0, reviews: 0 };
+  updated[kind] = Math.max(updated[kind] + amount, 0);
+  return updated;
+}
+
+// Writes per batch; Firestore allows 500
+const WRITE_BATCH_SIZE = 500;
+
+// Documents moved per write batch; a move is two writes
+const TRASH_BATCH_SIZE = WRITE_BATCH_SIZE / 2;
+
+// A topic's questions and progress, as stored
+async function getTopicDocs(userId: string, topicId: string): Promise<QueryDocumentSnapshot[]> {
+  const [questions, progress] = await Promise.all([
+    getDocs(query(collection(db, 'questions'), where('userId', '==', userId), where('topicId', '==', topicId))),
+    getDocs(query(collection(db, 'progress'), where('userId', '==', userId), where('topicId', '==', topicId)))
+  ]);
+  return [...questions.docs, ...progress.docs];
+}
+
+// Progress on a question, as stored
+async function getQuestionProgressDocs(userId: string, questionId: string): Promise<QueryDocumentSnapshot[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'progress'),
+    where('userId', '==', userId),
+    where('questionId', '==', questionId)
+  ));
+  return snapshot.docs;
+}
+
+// Delete documents a write batch at a time, in the order given
+async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+  for (let i = 0; i < refs.length; i += TRASH_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + TRASH_BATCH_SIZE).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+// Update documents a write batch at a time, in the order given
+async function updateInBatches(updates: { ref: DocumentReference; data: DocumentData }[]): Promise<void> {
+  for (let i = 0; i < updates.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    updates.slice(i, i + WRITE_BATCH_SIZE).forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+}
+
+// Change a topic's count of completed cards
+async function addToCompletedQuestions(topicId: string, amount: number): Promise<void> {
+  if (amount !== 0) {
+    await updateDoc(doc(db, 'topics', topicId), { completedQuestions: increment(amount) });
+  }
+}
+
+// Trash entry as read back, with dates restored
+function toTrashEntry(snapshot: DocumentSnapshot): TrashEntry {
+  const data = snapshot.data()!;
+  return {
+    ...data,
+    id: snapshot.id,
+    deletedAt: data.deletedAt.toDate(),
+    purgeAt: data.purgeAt.toDate()
+  } as TrashEntry;
+}
+
+// Copy documents into a new trash entry, deleting the originals
+async function moveToTrash(
+  entry: Omit<TrashEntry, 'id' | 'itemCount' | 'deletedAt' | 'purgeAt'>,
+  documents: DocumentSnapshot[],
+  purgeAt: Date,
+  entryId?: string
+): Promise<TrashEntry> {
+  const entryRef = entryId ? doc(db, 'trash', entryId) : doc(collection(db, 'trash'));
+  const deletedAt = new Date();
+
+  // The entry is written first so moved documents are never out of reach
+  await setDoc(entryRef, {
+    ...entry,
+    itemCount: documents.length,
+    deletedAt: Timestamp.fromDate(deletedAt),
+    purgeAt: Timestamp.fromDate(purgeAt)
+  });
+
+  for (let i = 0; i < documents.length; i += TRASH_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    documents.slice(i, i + TRASH_BATCH_SIZE).forEach(snapshot => {
+      const itemRef = doc(entryRef, 'items', `${snapshot.ref.parent.id}_${snapshot.id}`);
+      batch.set(itemRef, { path: snapshot.ref.path, data: snapshot.data() });
+      batch.delete(snapshot.ref);
+    });
+    await batch.commit();
+  }
+
+  return { ...entry, id: entryRef.id, itemCount: documents.length, deletedAt, purgeAt };
+}
+
+// Work through a trash entry's items a batch at a time, deleting each one
+// after `write` has added anything else to its batch
+async function drainTrashItems(
+  entryRef: DocumentReference,
+  write: (batch: WriteBatch, item: QueryDocumentSnapshot) => void
+): Promise<void> {
+  const items = collection(entryRef, 'items');
+
+  while (true) {
+    const snapshot = await getDocs(query(items, limit(TRASH_BATCH_SIZE)));
+    if (snapshot.empty) return;
+
+    const batch = writeBatch(db);
+    snapshot.docs.forEach(item => {
+      write(batch, item);
+      batch.delete(item.ref);
+    });
+    await batch.commit();
+  }
+}
+
+// Users Service
+export const usersService = {
+  // Get a user profile
+  async getUser(userId: string): Promise<User | null> {
+    const docRef = doc(db, 'users', userId);
+    const docSnap = await getDoc(docRef);
+
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt?.toDate(),
+        lastLoginAt: data.lastLoginAt?.toDate(),
+        backlogRecovery: data.backlogRecovery && {
+          ...data.backlogRecovery,
+          startedAt: data.backlogRecovery.startedAt.toDate(),
+          endsAt: data.backlogRecovery.endsAt.toDate()
+        }
+      } as User;
+    }
+
+    return null;
+  },
+
+  // Update user preferences
+  async updateUser(userId: string, updates: Partial<Omit<User, 'id' | 'createdAt' | 'lastLoginAt'>>): Promise<void> {
+    const docRef = doc(db, 'users', userId);
+    await setDoc(docRef, updates, { merge: true });
+  },
+
+  // Start backlog recovery, or clear it once the backlog is worked through
+  async setBacklogRecovery(userId: string, recovery: BacklogRecovery | null): Promise<void> {
+    await setDoc(doc(db, 'users', userId), {
+      backlogRecovery: recovery
+        ? {
+            ...recovery,
+            startedAt: Timestamp.fromDate(recovery.startedAt),
+            endsAt: Timestamp.fromDate(recovery.endsAt)
+          }
+        : deleteField()
+    }, { merge: true });
+  }
+};
+
+// Notification Settings Service (one document per user, keyed by user ID)
+export const notificationSettingsService = {
+  // Get a user's notification and day boundary settings
+  async getSettings(userId: string): Promise<NotificationSettings | null> {
+    const docSnap = await getDoc(doc(db, 'notificationSettings', userId));
+    return docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } as NotificationSettings : null;
+  },
+
+  // Create or update settings
+  async updateSettings(userId: string, updates: Partial<Omit<NotificationSettings, 'id' | 'userId'>>): Promise<void> {
+    await setDoc(doc(db, 'notificationSettings', userId), { ...updates, userId }, { merge: true });
+  }
+};
 
 // Topics Service
 export const topicsService = {
-  // Create a new topic
-  async createTopic(userId: string, topicData: Omit<Topic, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'questionCount' | 'completedQuestions'>): Promise<string> {
+  // Create a new topic. Writing with an ID picked on the device can safely
+  // be repeated.
+  async createTopic(
+    userId: string,
+    topicData: Omit<Topic, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'questionCount' | 'completedQuestions'>,
+    topicId?: string
+  ): Promise<string> {
     const topic = {
       ...topicData,
       userId,
@@ -29,7 +283,8 @@ export const topicsService = {
       completedQuestions: 0
     };
     
-    const docRef = await addDoc(collection(db, 'topics'), topic);
+    const docRef = topicId ? doc(db, 'topics', topicId) : doc(collection(db, 'topics'));
+    await setDoc(docRef, topic);
     return docRef.id;
   },
 
@@ -77,10 +332,56 @@ export const topicsService = {
     });
   },
 
-  // Delete a topic
+  // Set a topic's target recall, or clear it to fall back to the preset or user default
+  async setDesiredRetention(topicId: string, desiredRetention: number | null): Promise<void> {
+    await updateDoc(doc(db, 'topics', topicId), {
+      desiredRetention: desiredRetention ?? deleteField(),
+      updatedAt: Timestamp.now()
+    });
+  },
+
+  // Set a topic's weight in the weighted review order, or clear it to use the default
+  async setPriority(topicId: string, priority: number | null): Promise<void> {
+    await updateDoc(doc(db, 'topics', topicId), {
+      priority: priority ?? deleteField(),
+      updatedAt: Timestamp.now()
+    });
+  },
+
+  // Set a topic's scheduler, or clear it to use the user's
+  async setSchedulerType(topicId: string, schedulerType: SchedulerType | null): Promise<void> {
+    await updateDoc(doc(db, 'topics', topicId), {
+      schedulerType: schedulerType ?? deleteField(),
+      updatedAt: Timestamp.now()
+    });
+  },
+
+  // Count a card studied today towards the topic's daily limits
+  async incrementDailyCount(
+    topicId: string,
+    day: string,
+    kind: 'newCards' | 'reviews',
+    amount: number = 1
+  ): Promise<void> {
+    const topic = await this.getTopic(topicId);
+    if (!topic) return;
+
+    // Undoing an answer from an earlier day has nothing left to take back
+    if (amount < 0 && topic.dailyCounts?.day !== day) return;
+
+    await updateDoc(doc(db, 'topics', topicId), {
+      dailyCounts: addToDailyCounts(topic.dailyCounts, day, kind, amount)
+    });
+  },
+
+  // Delete a topic with its questions and progress, skipping the trash. The
+  // topic goes last, so a delete that fails part way can be run again.
   async deleteTopic(topicId: string): Promise<void> {
-    const docRef = doc(db, 'topics', topicId);
-    await deleteDoc(docRef);
+    const topic = await this.getTopic(topicId);
+    if (!topic) return;
+
+    const dependents = await getTopicDocs(topic.userId, topicId);
+    await deleteInBatches([...dependents.map(snapshot => snapshot.ref), doc(db, 'topics', topicId)]);
   },
 
   // Listen to topic changes
@@ -104,17 +405,185 @@ export const topicsService = {
   }
 };
 
+// Deck Presets Service
+export const presetsService = {
+  // Create a new preset
+  async createPreset(userId: string, presetData: Omit<DeckPreset, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const preset = {
+      ...presetData,
+      userId,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    };
+
+    const docRef = await addDoc(collection(db, 'presets'), preset);
+    return docRef.id;
+  },
+
+  // Get all presets for a user
+  async getUserPresets(userId: string): Promise<DeckPreset[]> {
+    const q = query(
+      collection(db, 'presets'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      createdAt: doc.data().createdAt.toDate(),
+      updatedAt: doc.data().updatedAt.toDate()
+    } as DeckPreset));
+  },
+
+  // Get a specific preset
+  async getPreset(presetId: string): Promise<DeckPreset | null> {
+    const docRef = doc(db, 'presets', presetId);
+    const docSnap = await getDoc(docRef);
+
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate()
+      } as DeckPreset;
+    }
+
+    return null;
+  },
+
+  // Update a preset
+  async updatePreset(presetId: string, updates: Partial<DeckPreset>): Promise<void> {
+    const docRef = doc(db, 'presets', presetId);
+    await updateDoc(docRef, {
+      ...updates,
+      updatedAt: Timestamp.now()
+    });
+  },
+
+  // Delete a preset
+  async deletePreset(presetId: string): Promise<void> {
+    const docRef = doc(db, 'presets', presetId);
+    await deleteDoc(docRef);
+  },
+
+  // Get the user's presets, creating the built-in ones on first use
+  async ensureUserPresets(userId: string): Promise<DeckPreset[]> {
+    const presets = await this.getUserPresets(userId);
+    if (presets.length > 0) return presets;
+
+    for (const preset of BUILT_IN_PRESETS) {
+      await this.createPreset(userId, preset);
+    }
+
+    return this.getUserPresets(userId);
+  }
+};
+
+// Saved Searches Service
+export const savedSearchesService = {
+  // Save a search query as a study set
+  async createSavedSearch(userId: string, name: string, searchQuery: string): Promise<string> {
+    const docRef = await addDoc(collection(db, 'savedSearches'), {
+      userId,
+      name,
+      query: searchQuery,
+      createdAt: Timestamp.now()
+    });
+    return docRef.id;
+  },
+
+  // Get a user's saved searches, oldest first
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const q = query(
+      collection(db, 'savedSearches'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      createdAt: doc.data().createdAt.toDate()
+    } as SavedSearch));
+  },
+
+  // Delete a saved search
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    await deleteDoc(doc(db, 'savedSearches', savedSearchId));
+  }
+};
+
+// Vacations Service
+export const vacationsService = {
+  // Record a vacation and the due dates it moved
+  async createVacation(vacation: Omit<Vacation, 'id' | 'createdAt'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'vacations'), {
+      ...vacation,
+      startsAt: Timestamp.fromDate(vacation.startsAt),
+      endsAt: Timestamp.fromDate(vacation.endsAt),
+      shifts: vacation.shifts.map((shift): StoredVacationShift => ({
+        ...shift,
+        originalDueAt: Timestamp.fromDate(shift.originalDueAt),
+        newDueAt: Timestamp.fromDate(shift.newDueAt)
+      })),
+      createdAt: Timestamp.now()
+    });
+    return docRef.id;
+  },
+
+  // Get a user's vacations, earliest first
+  async getUserVacations(userId: string): Promise<Vacation[]> {
+    const q = query(
+      collection(db, 'vacations'),
+      where('userId', '==', userId),
+      orderBy('startsAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        startsAt: data.startsAt.toDate(),
+        endsAt: data.endsAt.toDate(),
+        shifts: ((data.shifts || []) as StoredVacationShift[]).map((shift): VacationShift => ({
+          ...shift,
+          originalDueAt: shift.originalDueAt.toDate(),
+          newDueAt: shift.newDueAt.toDate()
+        })),
+        createdAt: data.createdAt.toDate()
+      } as Vacation;
+    });
+  },
+
+  // Delete a vacation
+  async deleteVacation(vacationId: string): Promise<void> {
+    await deleteDoc(doc(db, 'vacations', vacationId));
+  }
+};
+
 // Questions Service
 export const questionsService = {
-  // Create a new question
-  async createQuestion(userId: string, questionData: Omit<Question, 'id' | 'userId' | 'createdAt'>): Promise<string> {
+  // Create a new question. Writing with an ID picked on the device can
+  // safely be repeated.
+  async createQuestion(userId: string, questionData: Omit<Question, 'id' | 'userId' | 'createdAt'>, questionId?: string): Promise<string> {
     const question = {
       ...questionData,
       userId,
       createdAt: Timestamp.now()
     };
     
-    const docRef = await addDoc(collection(db, 'questions'), question);
+    const docRef = questionId ? doc(db, 'questions', questionId) : doc(collection(db, 'questions'));
+    await setDoc(docRef, question);
+
+    // Queue the question as a new card
+    await progressService.createNewCard(userId, docRef.id, questionData.topicId);
     
     // Update topic question count
     await this.updateTopicQuestionCount(questionData.topicId);
@@ -158,13 +627,23 @@ export const questionsService = {
   // Update a question
   async updateQuestion(questionId: string, updates: Partial<Question>): Promise<void> {
     const docRef = doc(db, 'questions', questionId);
-    await updateDoc(docRef, updates);
+    const data: DocumentData = { ...updates };
+
+    // Fields set to undefined are removed
+    Object.keys(data).forEach(key => data[key] === undefined && (data[key] = deleteField()));
+    await updateDoc(docRef, data);
   },
 
-  // Delete a question
+  // Delete a question with its progress, skipping the trash
   async deleteQuestion(questionId: string): Promise<void> {
-    const docRef = doc(db, 'questions', questionId);
-    await deleteDoc(docRef);
+    const question = await this.getQuestion(questionId);
+    if (!question) return;
+
+    const progress = await getQuestionProgressDocs(question.userId, questionId);
+    await deleteInBatches([...progress.map(snapshot => snapshot.ref), doc(db, 'questions', questionId)]);
+
+    await this.updateTopicQuestionCount(question.topicId);
+    await addToCompletedQuestions(question.topicId, -progress.filter(p => p.data().isCompleted).length);
   },
 
   // Update topic question count
@@ -198,7 +677,7 @@ export const progressService = {
       // Calculate next review interval based on performance
       let newInterval = currentProgress.reviewInterval;
       if (isCorrect) {
-        newInterval = Math.min(newInterval * 2, 168); // Max 1 week
+        newInterval = Math.min(newInterval * 2, DEFAULT_DECK_OPTIONS.maxInterval);
       } else {
         newInterval = Math.max(newInterval / 2, 1); // Min 1 hour
       }
@@ -234,10 +713,57 @@ export const progressService = {
         isCompleted: false
       };
 
-      await updateDoc(docRef, newProgress);
+      await setDoc(docRef, newProgress);
     }
   },
 
+  // Add a never-reviewed question to the new-card queue
+  async createNewCard(userId: string, questionId: string, topicId: string): Promise<void> {
+    const progressId = `${userId}_${questionId}`;
+    const docRef = doc(db, 'progress', progressId);
+
+    await setDoc(docRef, {
+      id: progressId,
+      userId,
+      questionId,
+      topicId,
+      correctAnswers: 0,
+      totalAttempts: 0,
+      consecutiveCorrect: 0,
+      lastAnsweredAt: Timestamp.now(),
+      nextReviewAt: Timestamp.now(),
+      reviewInterval: 0,
+      masteryLevel: 0,
+      isCompleted: false,
+      learningState: 'new',
+      learningStep: 0,
+      lapses: 0
+    });
+  },
+
+  // Get the oldest new cards of a topic, in the order they were added
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    if (count <= 0) return [];
+
+    const q = query(
+      collection(db, 'progress'),
+      where('userId', '==', userId),
+      where('topicId', '==', topicId),
+      where('learningState', '==', 'new'),
+      orderBy('nextReviewAt', 'asc'),
+      limit(count)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => ({
+        ...doc.data(),
+        lastAnsweredAt: doc.data().lastAnsweredAt.toDate(),
+        nextReviewAt: doc.data().nextReviewAt.toDate()
+      } as Progress))
+      .filter(progress => !progress.suspended);
+  },
+
   // Get user progress for a topic
   async getTopicProgress(userId: string, topicId: string): Promise<Progress[]> {
     const q = query(
@@ -254,16 +780,93 @@ export const progressService = {
     } as Progress));
   },
 
-  // Get questions due for review
-  async getDueQuestions(userId: string): Promise<Progress[]> {
-    const now = Timestamp.now();
+  // Get one page of questions due for review, earliest due first. Pass the
+  // previous page's cursor to continue; suspended cards are dropped from the
+  // page, so it can come back shorter than the page size before the end.
+  async getDueQuestionsPage(
+    userId: string,
+    until: Date = new Date(),
+    pageSize: number = DUE_PAGE_SIZE,
+    cursor?: DueQuestionsCursor | null
+  ): Promise<DueQuestionsPage> {
+    const q = query(
+      collection(db, 'progress'),
+      ...dueQuestionsConstraints(userId, until),
+      orderBy('nextReviewAt', 'asc'),
+      orderBy(documentId(), 'asc'),
+      ...(cursor ? [startAfter(Timestamp.fromDate(cursor.nextReviewAt), cursor.progressId)] : []),
+      limit(pageSize)
+    );
+
+    const snapshot = await getDocs(q);
+    const last = snapshot.docs[snapshot.docs.length - 1];
+
+    return {
+      items: snapshot.docs
+        .map(doc => ({
+          ...doc.data(),
+          lastAnsweredAt: doc.data().lastAnsweredAt.toDate(),
+          nextReviewAt: doc.data().nextReviewAt.toDate()
+        } as Progress))
+        .filter(progress => !progress.suspended),
+      nextCursor: snapshot.docs.length === pageSize
+        ? { nextReviewAt: last.data().nextReviewAt.toDate(), progressId: last.id }
+        : null
+    };
+  },
+
+  // Get every question due for review, a page at a time
+  async getDueQuestions(userId: string, until: Date = new Date()): Promise<Progress[]> {
+    const questions: Progress[] = [];
+    let cursor: DueQuestionsCursor | null = null;
+
+    do {
+      const page: DueQuestionsPage = await this.getDueQuestionsPage(userId, until, DUE_PAGE_SIZE, cursor);
+      questions.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return questions;
+  },
+
+  // Count questions due for review on the server, without loading them
+  async countDueQuestions(userId: string, until: Date = new Date()): Promise<number> {
+    const [due, suspended] = await Promise.all([
+      getCountFromServer(query(collection(db, 'progress'), ...dueQuestionsConstraints(userId, until))),
+      getCountFromServer(query(
+        collection(db, 'progress'),
+        ...dueQuestionsConstraints(userId, until),
+        where('suspended', '==', true)
+      ))
+    ]);
+
+    return due.data().count - suspended.data().count;
+  },
+
+  // Get progress records coming due within a time range
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
     const q = query(
       collection(db, 'progress'),
       where('userId', '==', userId),
-      where('nextReviewAt', '<=', now),
-      where('isCompleted', '==', false),
-      orderBy('nextReviewAt', 'asc'),
-      limit(20)
+      where('nextReviewAt', '>=', Timestamp.fromDate(start)),
+      where('nextReviewAt', '<=', Timestamp.fromDate(end)),
+      orderBy('nextReviewAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      ...doc.data(),
+      lastAnsweredAt: doc.data().lastAnsweredAt.toDate(),
+      nextReviewAt: doc.data().nextReviewAt.toDate()
+    } as Progress));
+  },
+
+  // Get cards flagged as leeches
+  async getLeeches(userId: string): Promise<Progress[]> {
+    const q = query(
+      collection(db, 'progress'),
+      where('userId', '==', userId),
+      where('isLeech', '==', true)
     );
 
     const snapshot = await getDocs(q);
@@ -310,6 +913,411 @@ export const progressService = {
       nextReviewAt: progressData.nextReviewAt ? Timestamp.fromDate(progressData.nextReviewAt) : Timestamp.now()
     };
 
-    await updateDoc(docRef, updateData);
+    // Merge so the first answer to a card without a progress record creates it
+    await setDoc(docRef, updateData, { merge: true });
+  },
+
+  // Update individual fields without touching the schedule
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    const docRef = doc(db, 'progress', progressId);
+    await updateDoc(docRef, updates);
+  },
+
+  // Move a card's next review without touching the rest of its schedule
+  async rescheduleProgress(progressId: string, nextReviewAt: Date): Promise<void> {
+    await updateDoc(doc(db, 'progress', progressId), {
+      nextReviewAt: Timestamp.fromDate(nextReviewAt)
+    });
+  },
+
+  // Move many cards' next reviews, a write batch at a time
+  async rescheduleAll(reschedules: ProgressReschedule[]): Promise<void> {
+    await updateInBatches(reschedules.map(({ progressId, nextReviewAt }) => ({
+      ref: doc(db, 'progress', progressId),
+      data: { nextReviewAt: Timestamp.fromDate(nextReviewAt) }
+    })));
+  },
+
+  // Move cards' due dates for a vacation, or put them back and clear the
+  // mark, a write batch at a time
+  async shiftAllForVacation(reschedules: ProgressReschedule[], vacationId: string | null): Promise<void> {
+    await updateInBatches(reschedules.map(({ progressId, nextReviewAt }) => ({
+      ref: doc(db, 'progress', progressId),
+      data: { nextReviewAt: Timestamp.fromDate(nextReviewAt), vacationId: vacationId ?? deleteField() }
+    })));
+  },
+
+  // Clear the vacation mark once the moved card has been answered
+  async clearVacationShift(progressId: string): Promise<void> {
+    await updateDoc(doc(db, 'progress', progressId), { vacationId: deleteField() });
+  },
+
+  // Mark cards saved before learning steps, which have no learning state and
+  // so never match the due queries, as in review, a write batch at a time
+  async setReviewState(progressIds: string[]): Promise<void> {
+    await updateInBatches(progressIds.map(progressId => ({
+      ref: doc(db, 'progress', progressId),
+      data: { learningState: 'review' }
+    })));
+  },
+
+  // Overwrite progress with an earlier snapshot, dropping fields added since
+  async restoreProgress(progressId: string, snapshot: Progress): Promise<void> {
+    await setDoc(doc(db, 'progress', progressId), toProgressData(snapshot));
+  },
+
+  // Delete a progress record
+  async deleteProgress(progressId: string): Promise<void> {
+    await deleteDoc(doc(db, 'progress', progressId));
   }
 };
+
+// Review Log Service
+export const reviewLogService = {
+  // Pick an ID for a review log entry before it is written
+  createReviewLogId(): string {
+    return doc(collection(db, 'reviews')).id;
+  },
+
+  // Append a review log entry (entries are never updated). Writing with an
+  // ID from createReviewLogId can safely be repeated.
+  async addReviewLog(log: Omit<ReviewLog, 'id'>, reviewId?: string): Promise<string> {
+    const entry = toReviewLogData(log);
+
+    if (reviewId) {
+      await setDoc(doc(db, 'reviews', reviewId), entry);
+      return reviewId;
+    }
+
+    const docRef = await addDoc(collection(db, 'reviews'), entry);
+    return docRef.id;
+  },
+
+  // Remove an entry whose answer was undone
+  async deleteReviewLog(reviewId: string): Promise<void> {
+    await deleteDoc(doc(db, 'reviews', reviewId));
+  },
+
+  // Get a user's review history, oldest first
+  async getUserReviewLogs(userId: string, since?: Date): Promise<ReviewLog[]> {
+    const constraints = [where('userId', '==', userId)];
+    if (since) {
+      constraints.push(where('reviewedAt', '>=', Timestamp.fromDate(since)));
+    }
+
+    const q = query(
+      collection(db, 'reviews'),
+      ...constraints,
+      orderBy('reviewedAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      previousDueAt: doc.data().previousDueAt?.toDate(),
+      newDueAt: doc.data().newDueAt.toDate(),
+      reviewedAt: doc.data().reviewedAt.toDate()
+    } as ReviewLog));
+  },
+
+  // Get the review history of a single question, oldest first
+  async getQuestionReviewLogs(userId: string, questionId: string): Promise<ReviewLog[]> {
+    const q = query(
+      collection(db, 'reviews'),
+      where('userId', '==', userId),
+      where('questionId', '==', questionId),
+      orderBy('reviewedAt', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      previousDueAt: doc.data().previousDueAt?.toDate(),
+      newDueAt: doc.data().newDueAt.toDate(),
+      reviewedAt: doc.data().reviewedAt.toDate()
+    } as ReviewLog));
+  }
+};
+
+// Times Firestore runs an answer transaction when other writes to the same
+// documents keep getting in the way, before giving up with 'aborted'
+const ANSWER_TRANSACTION_ATTEMPTS = 5;
+
+// Answers Service
+// Each answer's writes run in one transaction so another device or a dropped
+// connection can't leave them half done. Contention is retried by Firestore
+// up to ANSWER_TRANSACTION_ATTEMPTS times; anything else is left to the
+// caller (the sync outbox retries with backoff). Both operations are keyed by
+// the review log ID, so running one again after an unclear failure is safe.
+export const answersService = {
+  // Save an answer's progress, review log entry and counters together
+  async commitAnswer(commit: AnswerCommit, reviewId: string = reviewLogService.createReviewLogId()): Promise<string> {
+    const { userId, questionId, topicId, updates, reviewLog } = commit;
+    const reviewRef = doc(db, 'reviews', reviewId);
+    const progressRef = doc(db, 'progress', `${userId}_${questionId}`);
+    const questionRef = doc(db, 'questions', questionId);
+    const topicRef = doc(db, 'topics', topicId);
+    const userRef = doc(db, 'users', userId);
+
+    await runTransaction(db, async transaction => {
+      const [reviewSnap, progressSnap, questionSnap, topicSnap, userSnap] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(progressRef),
+        transaction.get(questionRef),
+        transaction.get(topicRef),
+        transaction.get(userRef)
+      ]);
+
+      // Already saved by an earlier attempt
+      if (reviewSnap.exists()) return;
+
+      // A later answer from another device keeps its progress, and a question
+      // deleted since the answer was made gets none back
+      const current = progressSnap.data();
+      const superseded = !!current && current.lastAnsweredAt.toDate() > reviewLog.reviewedAt;
+      const savesProgress = !superseded && questionSnap.exists();
+
+      if (savesProgress) {
+        transaction.set(progressRef, {
+          ...toProgressData(updates),
+          userId,
+          questionId,
+          topicId,
+          vacationId: deleteField()
+        }, { merge: true });
+      }
+
+      if (topicSnap.exists()) {
+        const topic = topicSnap.data();
+        const topicUpdates: DocumentData = {};
+        const completedChange = savesProgress ? Number(!!updates.isCompleted) - Number(!!current?.isCompleted) : 0;
+
+        if (completedChange !== 0) {
+          topicUpdates.completedQuestions = Math.max((topic.completedQuestions || 0) + completedChange, 0);
+        }
+        if (commit.countedAs) {
+          topicUpdates.dailyCounts = addToDailyCounts(topic.dailyCounts, commit.day, commit.countedAs, 1);
+        }
+        if (Object.keys(topicUpdates).length > 0) {
+          transaction.update(topicRef, topicUpdates);
+        }
+      }
+
+      if (userSnap.exists()) {
+        transaction.update(userRef, {
+          totalReviews: increment(1),
+          correctReviews: increment(reviewLog.grade !== 'again' ? 1 : 0),
+          studySeconds: increment(reviewLog.responseTime || 0)
+        });
+      }
+
+      transaction.set(reviewRef, toReviewLogData(reviewLog));
+    }, { maxAttempts: ANSWER_TRANSACTION_ATTEMPTS });
+
+    return reviewId;
+  },
+
+  // Take an answer back: restore progress, remove the log entry, undo counters
+  async undoAnswer(undo: AnswerUndo): Promise<void> {
+    const reviewRef = doc(db, 'reviews', undo.reviewLogId);
+    const progressRef = doc(db, 'progress', undo.progressId);
+    const topicRef = doc(db, 'topics', undo.topicId);
+
+    await runTransaction(db, async transaction => {
+      const reviewSnap = await transaction.get(reviewRef);
+      // Never saved, or already undone
+      if (!reviewSnap.exists()) return;
+
+      const review = reviewSnap.data();
+      const questionRef = doc(db, 'questions', review.questionId);
+      const userRef = doc(db, 'users', review.userId);
+      const [progressSnap, questionSnap, topicSnap, userSnap] = await Promise.all([
+        transaction.get(progressRef),
+        transaction.get(questionRef),
+        transaction.get(topicRef),
+        transaction.get(userRef)
+      ]);
+
+      // Leave the card alone if it has been answered again or deleted since
+      const current = progressSnap.data();
+      const answeredSince = !!current && current.lastAnsweredAt.toDate() > review.reviewedAt.toDate();
+      const restoresProgress = !answeredSince && questionSnap.exists();
+
+      if (restoresProgress) {
+        if (undo.previousProgress) {
+          transaction.set(progressRef, toProgressData(undo.previousProgress));
+        } else {
+          transaction.delete(progressRef);
+        }
+      }
+
+      if (topicSnap.exists()) {
+        const topic = topicSnap.data();
+        const topicUpdates: DocumentData = {};
+        const completedChange = restoresProgress
+          ? Number(!!undo.previousProgress?.isCompleted) - Number(!!current?.isCompleted)
+          : 0;
+
+        if (completedChange !== 0) {
+          topicUpdates.completedQuestions = Math.max((topic.completedQuestions || 0) + completedChange, 0);
+        }
+        // Undoing an answer from an earlier day has nothing left to take back
+        if (undo.countedAs && topic.dailyCounts?.day === undo.day) {
+          topicUpdates.dailyCounts = addToDailyCounts(topic.dailyCounts, undo.day, undo.countedAs, -1);
+        }
+        if (Object.keys(topicUpdates).length > 0) {
+          transaction.update(topicRef, topicUpdates);
+        }
+      }
+
+      if (userSnap.exists()) {
+        transaction.update(userRef, {
+          totalReviews: increment(-1),
+          correctReviews: increment(review.grade !== 'again' ? -1 : 0),
+          studySeconds: increment(-(review.responseTime || 0))
+        });
+      }
+
+      transaction.delete(reviewRef);
+    }, { maxAttempts: ANSWER_TRANSACTION_ATTEMPTS });
+  }
+};
+
+// Trash Service
+// Deleting a topic or question moves it into the trash along with the
+// questions and progress that depend on it: an entry in 'trash' holds a copy
+// of each document, exactly as stored, in its 'items' subcollection. Every
+// document is copied and deleted in the same batch, and the deleted topic or
+// question goes last, so an interrupted move leaves each document either in
+// place or in the trash. Review history is kept.
+export const trashService = {
+  // Move a topic with its questions and progress to the trash
+  async trashTopic(topicId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    const topicSnap = await getDoc(doc(db, 'topics', topicId));
+    if (!topicSnap.exists()) throw new Error(`Topic ${topicId} not found`);
+
+    const topic = topicSnap.data();
+    const dependents = await getTopicDocs(topic.userId, topicId);
+
+    return moveToTrash(
+      { userId: topic.userId, kind: 'topic', itemId: topicId, topicId, title: topic.title },
+      [...dependents, topicSnap],
+      purgeAt,
+      entryId
+    );
+  },
+
+  // Move a question with its progress to the trash
+  async trashQuestion(questionId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    const questionSnap = await getDoc(doc(db, 'questions', questionId));
+    if (!questionSnap.exists()) throw new Error(`Question ${questionId} not found`);
+
+    const question = questionSnap.data();
+    const progress = await getQuestionProgressDocs(question.userId, questionId);
+
+    const entry = await moveToTrash(
+      { userId: question.userId, kind: 'question', itemId: questionId, topicId: question.topicId, title: question.question },
+      [...progress, questionSnap],
+      purgeAt,
+      entryId
+    );
+
+    await questionsService.updateTopicQuestionCount(question.topicId);
+    await addToCompletedQuestions(question.topicId, -progress.filter(p => p.data().isCompleted).length);
+    return entry;
+  },
+
+  // Get a user's trash, most recently deleted first
+  async getUserTrash(userId: string): Promise<TrashEntry[]> {
+    const q = query(
+      collection(db, 'trash'),
+      where('userId', '==', userId),
+      orderBy('deletedAt', 'desc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(toTrashEntry);
+  },
+
+  // Get a user's trash entries due to be purged
+  async getExpiredTrash(userId: string, now: Date = new Date()): Promise<TrashEntry[]> {
+    const q = query(
+      collection(db, 'trash'),
+      where('userId', '==', userId),
+      where('purgeAt', '<=', Timestamp.fromDate(now))
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(toTrashEntry);
+  },
+
+  // Put everything in a trash entry back where it was. A question can only
+  // come back while its topic is there.
+  async restore(entryId: string): Promise<void> {
+    const entryRef = doc(db, 'trash', entryId);
+    const entrySnap = await getDoc(entryRef);
+    if (!entrySnap.exists()) throw new Error(`Trash entry ${entryId} not found`);
+
+    const entry = toTrashEntry(entrySnap);
+    if (entry.kind === 'question' && !(await getDoc(doc(db, 'topics', entry.topicId))).exists()) {
+      throw new Error('Restore the topic this question belongs to first');
+    }
+
+    let completed = 0;
+    await drainTrashItems(entryRef, (batch, item) => {
+      const { path, data } = item.data();
+      batch.set(doc(db, path), data);
+      if (path.startsWith('progress/') && data.isCompleted) completed++;
+    });
+    await deleteDoc(entryRef);
+
+    if (entry.kind === 'question') {
+      await questionsService.updateTopicQuestionCount(entry.topicId);
+      await addToCompletedQuestions(entry.topicId, completed);
+    }
+  },
+
+  // Delete a trash entry and everything in it for good
+  async purge(entryId: string): Promise<void> {
+    const entryRef = doc(db, 'trash', entryId);
+    await drainTrashItems(entryRef, () => {});
+    await deleteDoc(entryRef);
+  }
+};
+
+// What the scheduling service reads and writes, straight from Firestore
+export const firestoreSchedulingStore: SchedulingStore = {
+  getUser: userId => usersService.getUser(userId),
+  getTopic: topicId => topicsService.getTopic(topicId),
+  getUserTopics: userId => topicsService.getUserTopics(userId),
+  getPreset: presetId => presetsService.getPreset(presetId),
+  getUserPresets: userId => presetsService.getUserPresets(userId),
+
+  getProgress: progressId => progressService.getProgress(progressId),
+  getDueQuestions: (userId, until) => progressService.getDueQuestions(userId, until),
+  getNewCards: (userId, topicId, count) => progressService.getNewCards(userId, topicId, count),
+  getProgressDueBetween: (userId, start, end) => progressService.getProgressDueBetween(userId, start, end),
+  patchProgress: (progressId, updates) => progressService.patchProgress(progressId, updates),
+
+  commitAnswer: (commit, reviewId) => answersService.commitAnswer(commit, reviewId),
+  undoAnswer: undo => answersService.undoAnswer(undo),
+};
+
+// Every service above, as the app's repositories
+export const firestoreRepositories: Repositories = {
+  users: usersService,
+  settings: notificationSettingsService,
+  topics: topicsService,
+  questions: questionsService,
+  progress: progressService,
+  presets: presetsService,
+  savedSearches: savedSearchesService,
+  vacations: vacationsService,
+  reviewLogs: reviewLogService,
+  trash: trashService,
+  scheduling: firestoreSchedulingStore,
+  // Reads always come from the server, so there is nothing to refresh
+  sync: { refresh: async () => {} },
+};
@@ -0,0 +1,257 @@
+import { Progress } from '@/types';
+import { addStudyDays, getDayKey } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+import { CardState, createSeededRandom, Scheduler } from './schedulers';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Workload Forecast
+ * Counts reviews coming due on each of the next N days, per topic, and can
+ * simulate how that workload grows if the user keeps introducing new cards.
+ */
+
+export interface ForecastDay {
+  date: Date; // start of the day
+  total: number;
+  byTopic: Record<string, number>;
+  newCards: number; // simulated new cards introduced that day
+}
+
+// Days of review history used to measure the user's new-card rate
+const NEW_CARD_RATE_WINDOW = 14;
+
+// Safety cap on same-day learning steps simulated for a single card
+const MAX_STEPS_PER_DAY = 10;
+
+const SIMULATION_SEED = 42;
+
+export interface SimulationOptions {
+  newCardsPerDay?: number;
+  desiredRetention?: number;
+  now?: Date;
+}
+
+export interface RetentionWorkload {
+  desiredRetention: number;
+  reviewsPerDay: number;
+}
+
+interface SimulationInput {
+  days: number;
+  now: Date;
+  due: Progress[];
+  rates: Record<string, number>;
+}
+
+export class ForecastService {
+  private scheduling: SpacedRepetitionService;
+
+  constructor(private repositories: Repositories = appRepositories) {
+    this.scheduling = new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling);
+  }
+
+  /**
+   * Reviews due on each of the next `days` days; overdue cards count towards today
+   */
+  async getForecast(userId: string, days: number = 30, now: Date = new Date()): Promise<ForecastDay[]> {
+    const forecast = this.createDays(days, now);
+    const due = await this.getScheduledCards(userId, this.getForecastEnd(forecast));
+
+    due.forEach(progress => {
+      this.addReview(forecast, progress.nextReviewAt, progress.topicId);
+    });
+
+    return forecast;
+  }
+
+  /**
+   * Simulate the next `days` days with new cards introduced at the user's recent
+   * rate (or `newCardsPerDay`). Every review is recalled unless `desiredRetention`
+   * is given, in which case that share of reviews is recalled and the rest lapse.
+   */
+  async simulateWorkload(
+    userId: string,
+    days: number = 30,
+    options: SimulationOptions = {}
+  ): Promise<ForecastDay[]> {
+    const now = options.now ?? new Date();
+    const input = await this.loadSimulationInput(userId, days, options.newCardsPerDay, now);
+    return this.runSimulation(userId, input, options.desiredRetention);
+  }
+
+  /**
+   * Average daily reviews over the next `days` days at each target retention
+   */
+  async estimateWorkloadByRetention(
+    userId: string,
+    retentions: number[],
+    days: number = 30,
+    now: Date = new Date()
+  ): Promise<RetentionWorkload[]> {
+    const input = await this.loadSimulationInput(userId, days, undefined, now);
+
+    const estimates: RetentionWorkload[] = [];
+    for (const desiredRetention of retentions) {
+      const forecast = await this.runSimulation(userId, input, desiredRetention);
+      const total = forecast.reduce((sum, day) => sum + day.total, 0);
+      estimates.push({ desiredRetention, reviewsPerDay: total / forecast.length });
+    }
+    return estimates;
+  }
+
+  private async loadSimulationInput(
+    userId: string,
+    days: number,
+    newCardsPerDay: number | undefined,
+    now: Date
+  ): Promise<SimulationInput> {
+    const forecast = this.createDays(days, now);
+    const [due, rates] = await Promise.all([
+      this.getScheduledCards(userId, this.getForecastEnd(forecast)),
+      this.getNewCardRates(userId, newCardsPerDay, now)
+    ]);
+    return { days, now, due, rates };
+  }
+
+  private async runSimulation(
+    userId: string,
+    { days, now, due, rates }: SimulationInput,
+    desiredRetention?: number
+  ): Promise<ForecastDay[]> {
+    const forecast = this.createDays(days, now);
+    const end = this.getForecastEnd(forecast);
+    const overrides = desiredRetention !== undefined ? { desiredRetention } : undefined;
+    // Seeded so repeated estimates agree
+    const random = createSeededRandom(SIMULATION_SEED);
+
+    const schedulers = new Map<string, Scheduler>();
+    const topicIds = new Set([...due.map(p => p.topicId), ...Object.keys(rates)]);
+    for (const topicId of topicIds) {
+      schedulers.set(topicId, await this.scheduling.resolveScheduler(userId, topicId, overrides));
+    }
+
+    type SimulatedCard = { topicId: string; state: CardState | null; due: Date };
+    const cards: SimulatedCard[] = due.map(progress => ({
+      topicId: progress.topicId,
+      state: this.toCardState(progress),
+      due: progress.nextReviewAt
+    }));
+
+    // Fractional rates carry over, so 0.5 cards/day introduces a card every other day
+    const newCardDebt: Record<string, number> = {};
+    forecast.forEach((day, index) => {
+      const dayEnd = index + 1 < forecast.length ? forecast[index + 1].date : end;
+
+      // Introduce new cards at the start of each day
+      Object.entries(rates).forEach(([topicId, rate]) => {
+        newCardDebt[topicId] = (newCardDebt[topicId] || 0) + rate;
+        while (newCardDebt[topicId] >= 1) {
+          cards.push({ topicId, state: null, due: day.date });
+          day.newCards++;
+          newCardDebt[topicId]--;
+        }
+      });
+
+      cards.forEach(card => {
+        let steps = 0;
+        while (card.due < dayEnd && steps < MAX_STEPS_PER_DAY) {
+          const reviewAt = card.due < day.date ? day.date : card.due;
+          const recalled = desiredRetention === undefined || card.state?.learningState !== 'review' ||
+            random() < desiredRetention;
+          const result = schedulers.get(card.topicId)!.schedule(card.state, recalled ? 'good' : 'again', reviewAt);
+
+          this.addReview(forecast, reviewAt, card.topicId);
+          card.state = result.state;
+          card.due = result.nextReviewAt;
+          steps++;
+        }
+      });
+    });
+
+    return forecast;
+  }
+
+  /**
+   * New cards introduced per day in each topic over the last two weeks.
+   * When `total` is given it is split across topics in the same proportions.
+   */
+  async getNewCardRates(
+    userId: string,
+    total?: number,
+    now: Date = new Date()
+  ): Promise<Record<string, number>> {
+    const since = addStudyDays(now, -NEW_CARD_RATE_WINDOW);
+
+    const logs = await this.repositories.reviewLogs.getUserReviewLogs(userId, since);
+    const introduced: Record<string, number> = {};
+    logs
+      .filter(log => log.previousLearningState === 'new')
+      .forEach(log => {
+        introduced[log.topicId] = (introduced[log.topicId] || 0) + 1;
+      });
+
+    const count = Object.values(introduced).reduce((sum, n) => sum + n, 0);
+    if (total === undefined) {
+      return Object.fromEntries(
+        Object.entries(introduced).map(([topicId, n]) => [topicId, n / NEW_CARD_RATE_WINDOW])
+      );
+    }
+
+    // No recent history to weight by: split evenly across the user's topics
+    if (count === 0) {
+      const topics = await this.repositories.topics.getUserTopics(userId);
+      return Object.fromEntries(topics.map(topic => [topic.id, total / topics.length]));
+    }
+
+    return Object.fromEntries(
+      Object.entries(introduced).map(([topicId, n]) => [topicId, total * n / count])
+    );
+  }
+
+  /**
+   * Cards with a scheduled review before `end`
+   */
+  private async getScheduledCards(userId: string, end: Date): Promise<Progress[]> {
+    const progress = await this.repositories.progress.getProgressDueBetween(userId, new Date(0), end);
+    return progress.filter(p => p.learningState !== 'new' && !p.suspended);
+  }
+
+  private createDays(days: number, now: Date): ForecastDay[] {
+    return Array.from({ length: Math.max(days, 1) }, (_, index) => ({
+      date: addStudyDays(now, index),
+      total: 0,
+      byTopic: {},
+      newCards: 0
+    }));
+  }
+
+  private getForecastEnd(forecast: ForecastDay[]): Date {
+    return addStudyDays(forecast[forecast.length - 1].date, 1);
+  }
+
+  private addReview(forecast: ForecastDay[], dueAt: Date, topicId: string): void {
+    // Overdue cards are due today
+    const key = getDayKey(dueAt < forecast[0].date ? forecast[0].date : dueAt);
+    const day = forecast.find(d => getDayKey(d.date) === key);
+    if (!day) return;
+
+    day.total++;
+    day.byTopic[topicId] = (day.byTopic[topicId] || 0) + 1;
+  }
+
+  private toCardState(progress: Progress): CardState {
+    return {
+      reviewInterval: progress.reviewInterval,
+      consecutiveCorrect: progress.consecutiveCorrect || 0,
+      lastAnsweredAt: progress.lastAnsweredAt,
+      easeFactor: progress.easeFactor,
+      stability: progress.stability,
+      difficulty: progress.difficulty,
+      learningState: progress.learningState,
+      learningStep: progress.learningStep
+    };
+  }
+}
+
+// Export singleton instance
+export const forecastService = new ForecastService();
@@ -29,45 +29,111 @@ export class GeminiService {
     const prompt = this.buildPrompt(topic, description, count, difficulty);
 
     try {
-      const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048,
-          }
-        })
-      });
+      const generatedText = await this.generateContent(prompt);
+      return this.parseGeneratedQuestions(generatedText, difficulty);
 
-      if (!response.ok) {
-        throw new Error(`Gemini API request failed: ${response.status} ${response.statusText}`);
-      }
+    } catch (error) {
+      console.error('Error generating questions with Gemini:', error);
+      throw error;
+    }
+  }
 
-      const data = await response.json();
-      
-      if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        throw new Error('Invalid response from Gemini API');
-      }
+  /**
+   * Rewrite a question the learner keeps failing so it is easier to remember
+   */
+  async rewriteQuestion(question: Question, topic: string): Promise<GeminiQuestion> {
+    if (!this.apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
 
-      const generatedText = data.candidates[0].content.parts[0].text;
-      return this.parseGeneratedQuestions(generatedText, difficulty);
+    const prompt = this.buildRewritePrompt(question, topic);
+
+    try {
+      const generatedText = await this.generateContent(prompt);
+      const [rewritten] = this.parseGeneratedQuestions(generatedText, question.difficulty);
 
+      if (!rewritten || !rewritten.question || !rewritten.answer) {
+        throw new Error('No rewritten question in response');
+      }
+
+      return rewritten;
     } catch (error) {
-      console.error('Error generating questions with Gemini:', error);
+      console.error('Error rewriting question with Gemini:', error);
       throw error;
     }
   }
 
+  /**
+   * Send a prompt to Gemini and return the generated text
+   */
+  private async generateContent(prompt: string): Promise<string> {
+    const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature: 0.7,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 2048,
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    
+    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
+      throw new Error('Invalid response from Gemini API');
+    }
+
+    return data.candidates[0].content.parts[0].text;
+  }
+
+  /**
+   * Build the prompt for rewriting a hard-to-remember question
+   */
+  private buildRewritePrompt(question: Question, topic: string): string {
+    return `You are an expert educator improving a flashcard that a learner keeps forgetting.
+
+Topic: ${topic}
+Question: ${question.question}
+Answer: ${question.answer}
+Type: ${question.type}
+
+Instructions:
+- Keep the same fact being tested and the same question type
+- Make the question shorter, clearer and unambiguous
+- Add a memorable cue or mnemonic to the answer where it helps
+- For multiple choice questions, provide 4 options with only one correct answer
+
+Return exactly one question in the following JSON format:
+
+{
+  "questions": [
+    {
+      "question": "Rewritten question here",
+      "answer": "Rewritten answer here",
+      "options": ["Only for multiple choice or true/false"],
+      "type": "${question.type}",
+      "difficulty": "${question.difficulty}"
+    }
+  ]
+}
+
+Rewrite the question now:`;
+  }
+
   /**
    * Build the prompt for question generation
    */
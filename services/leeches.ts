@@ -0,0 +1,138 @@
+import { DeckOptions, Progress, Question } from '@/types';
+import { geminiService } from './gemini';
+import { appRepositories, ProgressPatch, Repositories } from './repositories';
+
+/**
+ * Leech Detection
+ * A leech is a card the user keeps forgetting. Once its lapse count reaches the
+ * deck's threshold it is tagged, suspended or queued for the rewrite job,
+ * which has Gemini rewrite it once there's a connection.
+ */
+
+export interface LeechReportItem {
+  progress: Progress;
+  question: Question;
+}
+
+export class LeechService {
+  private rewriting: Promise<number> | null = null;
+
+  constructor(private repositories: Repositories = appRepositories) {}
+
+  /**
+   * Whether a lapse count should trigger the leech action: at the threshold,
+   * then again every half threshold for cards that keep lapsing
+   */
+  isLeechThreshold(lapses: number, threshold: number): boolean {
+    if (threshold <= 0 || lapses < threshold) return false;
+
+    const repeatEvery = Math.max(Math.ceil(threshold / 2), 1);
+    return (lapses - threshold) % repeatEvery === 0;
+  }
+
+  /**
+   * Progress fields to apply when a card crosses the leech threshold
+   */
+  getLeechUpdates(options: DeckOptions): Partial<Progress> {
+    return {
+      isLeech: true,
+      ...(options.leechAction === 'suspend' && { suspended: true }),
+      ...(options.leechAction === 'rewrite' && { rewritePending: true })
+    };
+  }
+
+  /**
+   * Progress fields to apply once a leech has been rewritten: a fresh start
+   */
+  getRewrittenUpdates(): ProgressPatch {
+    return { isLeech: false, suspended: false, lapses: 0, rewritePending: false };
+  }
+
+  /**
+   * List the user's current leeches with their questions
+   */
+  async getLeechReport(userId: string): Promise<LeechReportItem[]> {
+    const leeches = await this.repositories.progress.getLeeches(userId);
+
+    const items = await Promise.all(
+      leeches.map(async (progress) => {
+        const question = await this.repositories.questions.getQuestion(progress.questionId);
+        return { progress, question: question! };
+      })
+    );
+
+    return items
+      .filter(item => item.question)
+      .sort((a, b) => (b.progress.lapses || 0) - (a.progress.lapses || 0));
+  }
+
+  /**
+   * Suspend or unsuspend a card
+   */
+  async setSuspended(progress: Progress, suspended: boolean): Promise<void> {
+    await this.repositories.progress.patchProgress(this.getProgressId(progress), { suspended });
+  }
+
+  /**
+   * Rewrite a leech with Gemini, then give it a fresh start
+   */
+  async rewriteWithAI(card: Pick<Progress, 'userId' | 'questionId' | 'topicId'>): Promise<Question> {
+    const [question, topic] = await Promise.all([
+      this.repositories.questions.getQuestion(card.questionId),
+      this.repositories.topics.getTopic(card.topicId)
+    ]);
+
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    const rewritten = await geminiService.rewriteQuestion(question, topic?.title || '');
+    const updates: Partial<Question> = {
+      question: rewritten.question,
+      answer: rewritten.answer,
+      type: rewritten.type,
+      options: rewritten.options // Removed when the rewrite has none
+    };
+
+    await this.repositories.questions.updateQuestion(question.id, updates);
+    await this.repositories.progress.patchProgress(this.getProgressId(card), this.getRewrittenUpdates());
+
+    return { ...question, ...updates };
+  }
+
+  /**
+   * Rewrite job: rewrite every leech queued for it. One that fails stays
+   * queued for the next run. Returns how many were rewritten.
+   */
+  rewritePending(userId: string): Promise<number> {
+    if (!this.rewriting) {
+      this.rewriting = this.rewriteQueued(userId).finally(() => {
+        this.rewriting = null;
+      });
+    }
+    return this.rewriting;
+  }
+
+  private async rewriteQueued(userId: string): Promise<number> {
+    const queued = (await this.repositories.progress.getLeeches(userId)).filter(p => p.rewritePending);
+    let rewritten = 0;
+
+    for (const card of queued) {
+      try {
+        await this.rewriteWithAI(card);
+        rewritten++;
+      } catch (error) {
+        console.error(`Error rewriting leech ${card.questionId}:`, error);
+      }
+    }
+
+    return rewritten;
+  }
+
+  private getProgressId(progress: Pick<Progress, 'userId' | 'questionId'>): string {
+    return `${progress.userId}_${progress.questionId}`;
+  }
+}
+
+// Export singleton instance
+export const leechService = new LeechService();
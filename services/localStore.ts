@@ -0,0 +1,223 @@
+import { DEMO_MODE } from '@/constants/Demo';
+import {
+  DeckPreset,
+  NotificationSettings,
+  Progress,
+  Question,
+  ReviewLog,
+  SavedSearch,
+  Topic,
+  User,
+  Vacation
+} from '@/types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { MemoryRepositoryHooks } from './memoryRepositories';
+import { MemorySchedulingStore, TrashedItems } from './schedulingStore';
+
+/**
+ * Local Store
+ * A copy of the signed-in user's topics, questions, progress, presets and
+ * profile kept on the device with AsyncStorage (in demo mode, everything the
+ * memory repositories hold), so screens and review
+ * sessions work without a connection. It answers the same queries as the
+ * in-memory scheduling store; the sync service fills it from Firestore and
+ * sends local changes back.
+ */
+
+// What each collection holds, by ID
+interface LocalCollections {
+  users: User;
+  notificationSettings: NotificationSettings; // By user ID
+  topics: Topic;
+  presets: DeckPreset;
+  questions: Question;
+  progress: Progress;
+  savedSearches: SavedSearch;
+  vacations: Vacation;
+  reviewLogs: ReviewLog;
+  trash: TrashedItems;
+}
+
+export type LocalCollection = keyof LocalCollections;
+
+// Demo mode keeps its made-up data apart from real synced data
+const STORAGE_PREFIX = 'cognifai:local:';
+const DEMO_STORAGE_PREFIX = 'cognifai:demo:';
+const COLLECTIONS: LocalCollection[] = [
+  'users',
+  'notificationSettings',
+  'topics',
+  'presets',
+  'questions',
+  'progress',
+  'savedSearches',
+  'vacations',
+  'reviewLogs',
+  'trash'
+];
+
+// Dates are stored as ISO strings and turned back into Dates when read, for
+// the fields below only
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'lastLoginAt',
+  'startedAt',
+  'endsAt',
+  'startsAt',
+  'lastAnsweredAt',
+  'nextReviewAt',
+  'previousDueAt',
+  'newDueAt',
+  'originalDueAt',
+  'reviewedAt',
+  'deletedAt',
+  'purgeAt'
+]);
+
+export function parseStoredJson<T>(raw: string): T {
+  return JSON.parse(raw, (key, value) =>
+    typeof value === 'string' && DATE_FIELDS.has(key) ? new Date(value) : value
+  );
+}
+
+export interface UserSnapshot {
+  user: User | null;
+  topics: Topic[];
+  presets: DeckPreset[];
+  questions: Question[];
+  progress: Progress[];
+}
+
+export class LocalStore extends MemorySchedulingStore {
+  private loading: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private prefix: string = STORAGE_PREFIX) {
+    super();
+  }
+
+  /**
+   * Read everything saved on the device into memory, once
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const entries = await AsyncStorage.multiGet(COLLECTIONS.map(name => this.prefix + name));
+        entries.forEach(([, raw], index) => {
+          if (raw) this.restore(COLLECTIONS[index], raw);
+        });
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Save collections to the device. Writes are queued so an older copy never
+   * lands after a newer one.
+   */
+  persist(...collections: LocalCollection[]): Promise<void> {
+    const pairs: [string, string][] = collections.map(name => [
+      this.prefix + name,
+      JSON.stringify([...this.collections()[name].entries()])
+    ]);
+    this.writes = this.writes
+      .then(() => AsyncStorage.multiSet(pairs))
+      .catch(error => console.error('Failed to save local data:', error));
+    return this.writes;
+  }
+
+  /**
+   * Hooks for memory repositories kept in this store: they read once it has
+   * loaded and save what they change
+   */
+  get repositoryHooks(): MemoryRepositoryHooks {
+    return {
+      load: () => this.load(),
+      onChange: collections => this.persist(...collections)
+    };
+  }
+
+  /**
+   * Whether anything has been synced for the user yet
+   */
+  hasUserData(userId: string): boolean {
+    return this.users.has(userId) || [...this.topics.values()].some(topic => topic.userId === userId);
+  }
+
+  /**
+   * Replace the user's data with a fresh copy from Firestore. Progress in
+   * `keepProgressIds`, and topics in `keepTopicIds` with their questions and
+   * progress, have local changes that haven't been sent yet and are left as
+   * they are.
+   */
+  async replaceUserData(
+    userId: string,
+    snapshot: UserSnapshot,
+    keepProgressIds: Set<string> = new Set(),
+    keepTopicIds: Set<string> = new Set()
+  ): Promise<void> {
+    await this.load();
+
+    const replace = <T extends { id: string; userId: string }>(map: Map<string, T>, items: T[], keep: (item: T) => boolean) => {
+      [...map.values()].filter(item => item.userId === userId && !keep(item)).forEach(item => map.delete(item.id));
+      items.filter(item => !keep(item)).forEach(item => map.set(item.id, item));
+    };
+
+    if (snapshot.user) this.users.set(userId, snapshot.user);
+    replace(this.topics, snapshot.topics, topic => keepTopicIds.has(topic.id));
+    replace(this.presets, snapshot.presets, () => false);
+    replace(this.questions, snapshot.questions, question => keepTopicIds.has(question.topicId));
+    replace(this.progress, snapshot.progress, p => keepProgressIds.has(p.id) || keepTopicIds.has(p.topicId));
+
+    await this.persist('users', 'topics', 'presets', 'questions', 'progress');
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    await this.load();
+    return (await super.getUserTopics(userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getTopicQuestions(topicId: string): Promise<Question[]> {
+    await this.load();
+    return [...this.questions.values()]
+      .filter(question => question.topicId === topicId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getQuestion(questionId: string): Promise<Question | null> {
+    await this.load();
+    return this.questions.get(questionId) ?? null;
+  }
+
+  async getTopicProgress(userId: string, topicId: string): Promise<Progress[]> {
+    await this.load();
+    return [...this.progress.values()]
+      .filter(p => p.userId === userId && p.topicId === topicId)
+      .map(p => ({ ...p }));
+  }
+
+  private restore<K extends LocalCollection>(name: K, raw: string): void {
+    const map = this.collections()[name];
+    parseStoredJson<[string, LocalCollections[K]][]>(raw).forEach(([id, value]) => map.set(id, value));
+  }
+
+  private collections(): { [K in LocalCollection]: Map<string, LocalCollections[K]> } {
+    return {
+      users: this.users,
+      notificationSettings: this.notificationSettings,
+      topics: this.topics,
+      presets: this.presets,
+      questions: this.questions,
+      progress: this.progress,
+      savedSearches: this.savedSearches,
+      vacations: this.vacations,
+      reviewLogs: this.reviewLogs,
+      trash: this.trash
+    };
+  }
+}
+
+// Export singleton instance
+export const localStore = new LocalStore(DEMO_MODE ? DEMO_STORAGE_PREFIX : STORAGE_PREFIX);
@@ -0,0 +1,867 @@
+import { BUILT_IN_PRESETS } from '@/constants/DeckPresets';
+import { DEMO_TOPICS } from '@/constants/Demo';
+import {
+  AnswerCommit,
+  AnswerUndo,
+  BacklogRecovery,
+  DeckPreset,
+  DueQuestionsCursor,
+  DueQuestionsPage,
+  NotificationSettings,
+  Progress,
+  Question,
+  ReviewLog,
+  SavedSearch,
+  SchedulerType,
+  Topic,
+  TrashEntry,
+  User,
+  Vacation
+} from '@/types';
+import { getDeviceTimezone } from './dayBoundary';
+import type { LocalCollection, LocalStore } from './localStore';
+import type {
+  NewPreset,
+  NewQuestion,
+  NewTopic,
+  NotificationSettingsRepository,
+  NotificationSettingsUpdates,
+  PresetRepository,
+  ProgressPatch,
+  ProgressRepository,
+  ProgressReschedule,
+  QuestionRepository,
+  Repositories,
+  ReviewLogRepository,
+  SavedSearchRepository,
+  SyncRepository,
+  TopicRepository,
+  TrashRepository,
+  UserRepository,
+  UserUpdates,
+  VacationRepository
+} from './repositories';
+import { MemorySchedulingStore, SchedulingStore, TrashedItems } from './schedulingStore';
+
+/**
+ * In-memory Repositories
+ * Profiles, settings, topics, questions, progress, presets, saved searches,
+ * vacations, the review log and the trash kept in the maps of a memory scheduling
+ * store, so the scheduling service and the repositories see the same data.
+ * Queries match their Firestore counterparts, including order and which
+ * cards count as due.
+ */
+
+export interface MemoryRepositoryHooks {
+  load?: () => Promise<void>; // Runs before every read and write
+  onChange?: (collections: LocalCollection[]) => unknown; // Runs after every write
+}
+
+const DEFAULT_DUE_PAGE_SIZE = 100;
+
+let nextId = 0;
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}${(nextId++).toString(36)}`;
+}
+
+const byNewest = <T extends { createdAt: Date }>(a: T, b: T) => b.createdAt.getTime() - a.createdAt.getTime();
+const byOldest = <T extends { createdAt: Date }>(a: T, b: T) => a.createdAt.getTime() - b.createdAt.getTime();
+
+// Delete the matching entries of a map and return them
+function removeWhere<T>(map: Map<string, T>, matches: (value: T) => boolean): T[] {
+  const removed = [...map.entries()].filter(([, value]) => matches(value));
+  removed.forEach(([id]) => map.delete(id));
+  return removed.map(([, value]) => value);
+}
+
+// Change a topic's count of completed cards
+function addToCompletedQuestions(store: MemorySchedulingStore, topicId: string, amount: number): void {
+  const topic = store.topics.get(topicId);
+  if (topic) topic.completedQuestions = Math.max(topic.completedQuestions + amount, 0);
+}
+
+export class MemoryUserRepository implements UserRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async getUser(userId: string): Promise<User | null> {
+    await this.hooks.load?.();
+    const user = this.store.users.get(userId);
+    return user ? { ...user } : null;
+  }
+
+  async updateUser(userId: string, updates: UserUpdates): Promise<void> {
+    await this.update(userId, user => Object.assign(user, updates));
+  }
+
+  async setBacklogRecovery(userId: string, recovery: BacklogRecovery | null): Promise<void> {
+    await this.update(userId, user => {
+      if (recovery === null) delete user.backlogRecovery;
+      else user.backlogRecovery = recovery;
+    });
+  }
+
+  // Like a merged Firestore write, a missing profile is created
+  private async update(userId: string, change: (user: User) => void): Promise<void> {
+    await this.hooks.load?.();
+    let user = this.store.users.get(userId);
+    if (!user) {
+      const now = new Date();
+      user = { id: userId, email: '', createdAt: now, lastLoginAt: now };
+      this.store.users.set(userId, user);
+    }
+
+    change(user);
+    await this.hooks.onChange?.(['users']);
+  }
+}
+
+export class MemoryNotificationSettingsRepository implements NotificationSettingsRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async getSettings(userId: string): Promise<NotificationSettings | null> {
+    await this.hooks.load?.();
+    const settings = this.store.notificationSettings.get(userId);
+    return settings ? { ...settings } : null;
+  }
+
+  async updateSettings(userId: string, updates: NotificationSettingsUpdates): Promise<void> {
+    await this.hooks.load?.();
+    const current: NotificationSettings = this.store.notificationSettings.get(userId) ?? {
+      id: userId,
+      userId,
+      enableReviewReminders: true,
+      enableDailyGoals: true,
+      enableStreakReminders: true,
+      reminderTime: '19:00',
+      timezone: getDeviceTimezone()
+    };
+    this.store.notificationSettings.set(userId, { ...current, ...updates });
+    await this.hooks.onChange?.(['notificationSettings']);
+  }
+}
+
+export class MemoryTopicRepository implements TopicRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createTopic(userId: string, topicData: NewTopic, topicId?: string): Promise<string> {
+    await this.hooks.load?.();
+    const now = new Date();
+    const id = topicId ?? createId('topic');
+    this.store.topics.set(id, {
+      ...topicData,
+      id,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+      questionCount: 0,
+      completedQuestions: 0
+    });
+    await this.hooks.onChange?.(['topics']);
+    return id;
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    await this.hooks.load?.();
+    return [...this.store.topics.values()]
+      .filter(topic => topic.userId === userId)
+      .sort(byNewest)
+      .map(topic => ({ ...topic }));
+  }
+
+  async getTopic(topicId: string): Promise<Topic | null> {
+    await this.hooks.load?.();
+    const topic = this.store.topics.get(topicId);
+    return topic ? { ...topic } : null;
+  }
+
+  async updateTopic(topicId: string, updates: Partial<Topic>): Promise<void> {
+    await this.update(topicId, topic => Object.assign(topic, updates));
+  }
+
+  async setDesiredRetention(topicId: string, desiredRetention: number | null): Promise<void> {
+    await this.update(topicId, topic => {
+      if (desiredRetention === null) delete topic.desiredRetention;
+      else topic.desiredRetention = desiredRetention;
+    });
+  }
+
+  async setPriority(topicId: string, priority: number | null): Promise<void> {
+    await this.update(topicId, topic => {
+      if (priority === null) delete topic.priority;
+      else topic.priority = priority;
+    });
+  }
+
+  async setSchedulerType(topicId: string, schedulerType: SchedulerType | null): Promise<void> {
+    await this.update(topicId, topic => {
+      if (schedulerType === null) delete topic.schedulerType;
+      else topic.schedulerType = schedulerType;
+    });
+  }
+
+  async incrementDailyCount(
+    topicId: string,
+    day: string,
+    kind: 'newCards' | 'reviews',
+    amount: number = 1
+  ): Promise<void> {
+    await this.hooks.load?.();
+    const topic = this.store.topics.get(topicId);
+    if (!topic) return;
+
+    this.store.addToDailyCount(topic, day, kind, amount);
+    await this.hooks.onChange?.(['topics']);
+  }
+
+  async deleteTopic(topicId: string): Promise<void> {
+    await this.hooks.load?.();
+    removeWhere(this.store.questions, question => question.topicId === topicId);
+    removeWhere(this.store.progress, p => p.topicId === topicId);
+    this.store.topics.delete(topicId);
+    await this.hooks.onChange?.(['topics', 'questions', 'progress']);
+  }
+
+  private async update(topicId: string, change: (topic: Topic) => void): Promise<void> {
+    await this.hooks.load?.();
+    const topic = this.store.topics.get(topicId);
+    if (!topic) throw new Error(`Topic ${topicId} not found`);
+
+    change(topic);
+    topic.updatedAt = new Date();
+    await this.hooks.onChange?.(['topics']);
+  }
+}
+
+export class MemoryQuestionRepository implements QuestionRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private progress: ProgressRepository,
+    private topics: TopicRepository,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createQuestion(userId: string, questionData: NewQuestion, questionId?: string): Promise<string> {
+    await this.hooks.load?.();
+    const id = questionId ?? createId('question');
+    this.store.questions.set(id, { ...questionData, id, userId, createdAt: new Date() });
+    await this.hooks.onChange?.(['questions']);
+
+    // Queue the question as a new card
+    await this.progress.createNewCard(userId, id, questionData.topicId);
+    await this.updateTopicQuestionCount(questionData.topicId);
+    return id;
+  }
+
+  async getTopicQuestions(topicId: string): Promise<Question[]> {
+    await this.hooks.load?.();
+    return [...this.store.questions.values()]
+      .filter(question => question.topicId === topicId)
+      .sort(byNewest)
+      .map(question => ({ ...question }));
+  }
+
+  async getQuestion(questionId: string): Promise<Question | null> {
+    await this.hooks.load?.();
+    const question = this.store.questions.get(questionId);
+    return question ? { ...question } : null;
+  }
+
+  async updateQuestion(questionId: string, updates: Partial<Question>): Promise<void> {
+    await this.hooks.load?.();
+    const question = this.store.questions.get(questionId);
+    if (!question) throw new Error(`Question ${questionId} not found`);
+
+    Object.assign(question, updates);
+    (Object.keys(updates) as (keyof Question)[]).forEach(key => updates[key] === undefined && delete question[key]);
+    await this.hooks.onChange?.(['questions']);
+  }
+
+  async deleteQuestion(questionId: string): Promise<void> {
+    await this.hooks.load?.();
+    const question = this.store.questions.get(questionId);
+    if (!question) return;
+
+    const progress = removeWhere(this.store.progress, p => p.questionId === questionId);
+    this.store.questions.delete(questionId);
+    await this.hooks.onChange?.(['questions', 'progress']);
+
+    await this.updateTopicQuestionCount(question.topicId);
+    addToCompletedQuestions(this.store, question.topicId, -progress.filter(p => p.isCompleted).length);
+    await this.hooks.onChange?.(['topics']);
+  }
+
+  async updateTopicQuestionCount(topicId: string): Promise<void> {
+    const questions = await this.getTopicQuestions(topicId);
+    await this.topics.updateTopic(topicId, { questionCount: questions.length });
+  }
+}
+
+export class MemoryProgressRepository implements ProgressRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createNewCard(userId: string, questionId: string, topicId: string): Promise<void> {
+    await this.hooks.load?.();
+    const progressId = `${userId}_${questionId}`;
+    const now = new Date();
+    this.store.progress.set(progressId, {
+      id: progressId,
+      userId,
+      questionId,
+      topicId,
+      correctAnswers: 0,
+      totalAttempts: 0,
+      consecutiveCorrect: 0,
+      lastAnsweredAt: now,
+      nextReviewAt: now,
+      reviewInterval: 0,
+      masteryLevel: 0,
+      isCompleted: false,
+      learningState: 'new',
+      learningStep: 0,
+      lapses: 0
+    });
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getNewCards(userId, topicId, count);
+  }
+
+  async getTopicProgress(userId: string, topicId: string): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.userProgress(userId).filter(p => p.topicId === topicId);
+  }
+
+  async getDueQuestionsPage(
+    userId: string,
+    until: Date = new Date(),
+    pageSize: number = DEFAULT_DUE_PAGE_SIZE,
+    cursor?: DueQuestionsCursor | null
+  ): Promise<DueQuestionsPage> {
+    await this.hooks.load?.();
+    // Same order and filters as the Firestore query, with suspended cards
+    // dropped after paging. Cards with no learning state are in review, as
+    // syncing makes them in Firestore.
+    const due = this.userProgress(userId)
+      .filter(p => p.nextReviewAt <= until && p.learningState !== 'new')
+      .sort((a, b) => a.nextReviewAt.getTime() - b.nextReviewAt.getTime() || a.id.localeCompare(b.id))
+      .filter(p => !cursor ||
+        p.nextReviewAt > cursor.nextReviewAt ||
+        (p.nextReviewAt.getTime() === cursor.nextReviewAt.getTime() && p.id > cursor.progressId)
+      );
+    const page = due.slice(0, pageSize);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.filter(p => !p.suspended),
+      nextCursor: page.length === pageSize ? { nextReviewAt: last.nextReviewAt, progressId: last.id } : null
+    };
+  }
+
+  async getDueQuestions(userId: string, until: Date = new Date()): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getDueQuestions(userId, until);
+  }
+
+  async countDueQuestions(userId: string, until: Date = new Date()): Promise<number> {
+    return (await this.getDueQuestions(userId, until)).length;
+  }
+
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getProgressDueBetween(userId, start, end);
+  }
+
+  async getLeeches(userId: string): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.userProgress(userId).filter(p => p.isLeech);
+  }
+
+  async getProgress(progressId: string): Promise<Progress | null> {
+    await this.hooks.load?.();
+    return this.store.getProgress(progressId);
+  }
+
+  async updateProgress(
+    userId: string,
+    questionId: string,
+    topicId: string,
+    progressData: Partial<Progress>
+  ): Promise<void> {
+    await this.hooks.load?.();
+    const progressId = `${userId}_${questionId}`;
+    const now = new Date();
+    this.store.progress.set(progressId, {
+      ...this.store.progress.get(progressId),
+      ...progressData,
+      id: progressId,
+      userId,
+      questionId,
+      topicId,
+      lastAnsweredAt: progressData.lastAnsweredAt ?? now,
+      nextReviewAt: progressData.nextReviewAt ?? now
+    } as Progress);
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    await this.change(progressId, progress => Object.assign(progress, updates));
+  }
+
+  async rescheduleProgress(progressId: string, nextReviewAt: Date): Promise<void> {
+    await this.change(progressId, progress => {
+      progress.nextReviewAt = nextReviewAt;
+    });
+  }
+
+  async rescheduleAll(reschedules: ProgressReschedule[]): Promise<void> {
+    await this.hooks.load?.();
+    reschedules.forEach(({ progressId, nextReviewAt }) => {
+      const progress = this.store.progress.get(progressId);
+      if (!progress) throw new Error(`Progress ${progressId} not found`);
+      progress.nextReviewAt = nextReviewAt;
+    });
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async shiftAllForVacation(reschedules: ProgressReschedule[], vacationId: string | null): Promise<void> {
+    await this.hooks.load?.();
+    reschedules.forEach(({ progressId, nextReviewAt }) => {
+      const progress = this.store.progress.get(progressId);
+      if (!progress) throw new Error(`Progress ${progressId} not found`);
+      progress.nextReviewAt = nextReviewAt;
+      if (vacationId === null) delete progress.vacationId;
+      else progress.vacationId = vacationId;
+    });
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async clearVacationShift(progressId: string): Promise<void> {
+    await this.change(progressId, progress => {
+      delete progress.vacationId;
+    });
+  }
+
+  async setReviewState(progressIds: string[]): Promise<void> {
+    await this.hooks.load?.();
+    progressIds.forEach(progressId => {
+      const progress = this.store.progress.get(progressId);
+      if (!progress) throw new Error(`Progress ${progressId} not found`);
+      progress.learningState = 'review';
+    });
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async restoreProgress(progressId: string, snapshot: Progress): Promise<void> {
+    await this.hooks.load?.();
+    this.store.progress.set(progressId, { ...snapshot });
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async deleteProgress(progressId: string): Promise<void> {
+    await this.hooks.load?.();
+    this.store.progress.delete(progressId);
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  private async change(progressId: string, apply: (progress: Progress) => void): Promise<void> {
+    await this.hooks.load?.();
+    const progress = this.store.progress.get(progressId);
+    if (!progress) throw new Error(`Progress ${progressId} not found`);
+
+    apply(progress);
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  private userProgress(userId: string): Progress[] {
+    return [...this.store.progress.values()]
+      .filter(p => p.userId === userId)
+      .map(p => ({ ...p }));
+  }
+}
+
+export class MemoryPresetRepository implements PresetRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createPreset(userId: string, presetData: NewPreset): Promise<string> {
+    await this.hooks.load?.();
+    const now = new Date();
+    const id = createId('preset');
+    this.store.presets.set(id, { ...presetData, id, userId, createdAt: now, updatedAt: now });
+    await this.hooks.onChange?.(['presets']);
+    return id;
+  }
+
+  async getUserPresets(userId: string): Promise<DeckPreset[]> {
+    await this.hooks.load?.();
+    return [...this.store.presets.values()]
+      .filter(preset => preset.userId === userId)
+      .sort(byOldest)
+      .map(preset => ({ ...preset }));
+  }
+
+  async getPreset(presetId: string): Promise<DeckPreset | null> {
+    await this.hooks.load?.();
+    const preset = this.store.presets.get(presetId);
+    return preset ? { ...preset } : null;
+  }
+
+  async updatePreset(presetId: string, updates: Partial<DeckPreset>): Promise<void> {
+    await this.hooks.load?.();
+    const preset = this.store.presets.get(presetId);
+    if (!preset) throw new Error(`Preset ${presetId} not found`);
+
+    Object.assign(preset, updates, { updatedAt: new Date() });
+    await this.hooks.onChange?.(['presets']);
+  }
+
+  async deletePreset(presetId: string): Promise<void> {
+    await this.hooks.load?.();
+    this.store.presets.delete(presetId);
+    await this.hooks.onChange?.(['presets']);
+  }
+
+  async ensureUserPresets(userId: string): Promise<DeckPreset[]> {
+    const presets = await this.getUserPresets(userId);
+    if (presets.length > 0) return presets;
+
+    for (const preset of BUILT_IN_PRESETS) {
+      await this.createPreset(userId, preset);
+    }
+
+    return this.getUserPresets(userId);
+  }
+}
+
+export class MemorySavedSearchRepository implements SavedSearchRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createSavedSearch(userId: string, name: string, searchQuery: string): Promise<string> {
+    await this.hooks.load?.();
+    const id = createId('search');
+    this.store.savedSearches.set(id, { id, userId, name, query: searchQuery, createdAt: new Date() });
+    await this.hooks.onChange?.(['savedSearches']);
+    return id;
+  }
+
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    await this.hooks.load?.();
+    return [...this.store.savedSearches.values()]
+      .filter(savedSearch => savedSearch.userId === userId)
+      .sort(byOldest)
+      .map(savedSearch => ({ ...savedSearch }));
+  }
+
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    await this.hooks.load?.();
+    this.store.savedSearches.delete(savedSearchId);
+    await this.hooks.onChange?.(['savedSearches']);
+  }
+}
+
+export class MemoryVacationRepository implements VacationRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async createVacation(vacation: Omit<Vacation, 'id' | 'createdAt'>): Promise<string> {
+    await this.hooks.load?.();
+    const id = createId('vacation');
+    this.store.vacations.set(id, { ...vacation, id, createdAt: new Date() });
+    await this.hooks.onChange?.(['vacations']);
+    return id;
+  }
+
+  async getUserVacations(userId: string): Promise<Vacation[]> {
+    await this.hooks.load?.();
+    return [...this.store.vacations.values()]
+      .filter(vacation => vacation.userId === userId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+      .map(vacation => ({ ...vacation }));
+  }
+
+  async deleteVacation(vacationId: string): Promise<void> {
+    await this.hooks.load?.();
+    this.store.vacations.delete(vacationId);
+    await this.hooks.onChange?.(['vacations']);
+  }
+}
+
+export class MemoryReviewLogRepository implements ReviewLogRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async getUserReviewLogs(userId: string, since?: Date): Promise<ReviewLog[]> {
+    await this.hooks.load?.();
+    return this.userReviewLogs(userId).filter(log => !since || log.reviewedAt >= since);
+  }
+
+  async getQuestionReviewLogs(userId: string, questionId: string): Promise<ReviewLog[]> {
+    await this.hooks.load?.();
+    return this.userReviewLogs(userId).filter(log => log.questionId === questionId);
+  }
+
+  private userReviewLogs(userId: string): ReviewLog[] {
+    return [...this.store.reviewLogs.values()]
+      .filter(log => log.userId === userId)
+      .sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+      .map(log => ({ ...log }));
+  }
+}
+
+export class MemoryTrashRepository implements TrashRepository {
+  constructor(
+    private store: MemorySchedulingStore,
+    private questions: QuestionRepository,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async trashTopic(topicId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    await this.hooks.load?.();
+    const topic = this.store.topics.get(topicId);
+    if (!topic) throw new Error(`Topic ${topicId} not found`);
+
+    const questions = removeWhere(this.store.questions, question => question.topicId === topicId);
+    const progress = removeWhere(this.store.progress, p => p.topicId === topicId);
+    this.store.topics.delete(topicId);
+
+    const entry = this.addEntry(
+      { userId: topic.userId, kind: 'topic', itemId: topicId, topicId, title: topic.title },
+      { topic, questions, progress },
+      purgeAt,
+      entryId
+    );
+    await this.hooks.onChange?.(['topics', 'questions', 'progress', 'trash']);
+    return entry;
+  }
+
+  async trashQuestion(questionId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    await this.hooks.load?.();
+    const question = this.store.questions.get(questionId);
+    if (!question) throw new Error(`Question ${questionId} not found`);
+
+    const progress = removeWhere(this.store.progress, p => p.questionId === questionId);
+    this.store.questions.delete(questionId);
+
+    const entry = this.addEntry(
+      { userId: question.userId, kind: 'question', itemId: questionId, topicId: question.topicId, title: question.question },
+      { questions: [question], progress },
+      purgeAt,
+      entryId
+    );
+    await this.hooks.onChange?.(['questions', 'progress', 'trash']);
+
+    await this.questions.updateTopicQuestionCount(question.topicId);
+    addToCompletedQuestions(this.store, question.topicId, -progress.filter(p => p.isCompleted).length);
+    await this.hooks.onChange?.(['topics']);
+    return entry;
+  }
+
+  async getUserTrash(userId: string): Promise<TrashEntry[]> {
+    await this.hooks.load?.();
+    return [...this.store.trash.values()]
+      .map(({ entry }) => ({ ...entry }))
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async getExpiredTrash(userId: string, now: Date = new Date()): Promise<TrashEntry[]> {
+    return (await this.getUserTrash(userId)).filter(entry => entry.purgeAt <= now);
+  }
+
+  async restore(entryId: string): Promise<void> {
+    await this.hooks.load?.();
+    const trashed = this.store.trash.get(entryId);
+    if (!trashed) throw new Error(`Trash entry ${entryId} not found`);
+
+    const { entry, topic, questions, progress } = trashed;
+    if (entry.kind === 'question' && !this.store.topics.has(entry.topicId)) {
+      throw new Error('Restore the topic this question belongs to first');
+    }
+
+    if (topic) this.store.topics.set(topic.id, topic);
+    questions.forEach(question => this.store.questions.set(question.id, question));
+    progress.forEach(p => this.store.progress.set(p.id, p));
+    this.store.trash.delete(entryId);
+    await this.hooks.onChange?.(['topics', 'questions', 'progress', 'trash']);
+
+    if (entry.kind === 'question') {
+      await this.questions.updateTopicQuestionCount(entry.topicId);
+      addToCompletedQuestions(this.store, entry.topicId, progress.filter(p => p.isCompleted).length);
+      await this.hooks.onChange?.(['topics']);
+    }
+  }
+
+  async purge(entryId: string): Promise<void> {
+    await this.hooks.load?.();
+    this.store.trash.delete(entryId);
+    await this.hooks.onChange?.(['trash']);
+  }
+
+  private addEntry(
+    entry: Omit<TrashEntry, 'id' | 'itemCount' | 'deletedAt' | 'purgeAt'>,
+    items: Omit<TrashedItems, 'entry'>,
+    purgeAt: Date,
+    entryId: string = createId('trash')
+  ): TrashEntry {
+    const trashEntry: TrashEntry = {
+      ...entry,
+      id: entryId,
+      itemCount: Number(!!items.topic) + items.questions.length + items.progress.length,
+      deletedAt: new Date(),
+      purgeAt
+    };
+    this.store.trash.set(trashEntry.id, { ...items, entry: trashEntry });
+    return { ...trashEntry };
+  }
+}
+
+/**
+ * The memory store's scheduling reads and answer writes, with the hooks run
+ * around them like the other memory repositories
+ */
+export class MemorySchedulingRepository implements SchedulingStore {
+  constructor(
+    private store: MemorySchedulingStore,
+    private hooks: MemoryRepositoryHooks = {}
+  ) {}
+
+  async getUser(userId: string): Promise<User | null> {
+    await this.hooks.load?.();
+    return this.store.getUser(userId);
+  }
+
+  async getTopic(topicId: string): Promise<Topic | null> {
+    await this.hooks.load?.();
+    return this.store.getTopic(topicId);
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    await this.hooks.load?.();
+    return this.store.getUserTopics(userId);
+  }
+
+  async getPreset(presetId: string): Promise<DeckPreset | null> {
+    await this.hooks.load?.();
+    return this.store.getPreset(presetId);
+  }
+
+  async getUserPresets(userId: string): Promise<DeckPreset[]> {
+    await this.hooks.load?.();
+    return this.store.getUserPresets(userId);
+  }
+
+  async getProgress(progressId: string): Promise<Progress | null> {
+    await this.hooks.load?.();
+    return this.store.getProgress(progressId);
+  }
+
+  async getDueQuestions(userId: string, until: Date): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getDueQuestions(userId, until);
+  }
+
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getNewCards(userId, topicId, count);
+  }
+
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
+    await this.hooks.load?.();
+    return this.store.getProgressDueBetween(userId, start, end);
+  }
+
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    await this.hooks.load?.();
+    await this.store.patchProgress(progressId, updates);
+    await this.hooks.onChange?.(['progress']);
+  }
+
+  async commitAnswer(commit: AnswerCommit, reviewId?: string): Promise<string> {
+    await this.hooks.load?.();
+    const reviewLogId = await this.store.commitAnswer(commit, reviewId);
+    await this.hooks.onChange?.(['progress', 'topics', 'users', 'reviewLogs']);
+    return reviewLogId;
+  }
+
+  async undoAnswer(undo: AnswerUndo): Promise<void> {
+    await this.hooks.load?.();
+    await this.store.undoAnswer(undo);
+    await this.hooks.onChange?.(['progress', 'topics', 'users', 'reviewLogs']);
+  }
+}
+
+/**
+ * Repositories over one memory scheduling store
+ */
+export function createMemoryRepositories(
+  store: MemorySchedulingStore = new MemorySchedulingStore(),
+  hooks: MemoryRepositoryHooks = {}
+): Repositories {
+  const topics = new MemoryTopicRepository(store, hooks);
+  const progress = new MemoryProgressRepository(store, hooks);
+  const questions = new MemoryQuestionRepository(store, progress, topics, hooks);
+  const trash = new MemoryTrashRepository(store, questions, hooks);
+  return {
+    users: new MemoryUserRepository(store, hooks),
+    settings: new MemoryNotificationSettingsRepository(store, hooks),
+    topics,
+    questions,
+    progress,
+    presets: new MemoryPresetRepository(store, hooks),
+    savedSearches: new MemorySavedSearchRepository(store, hooks),
+    vacations: new MemoryVacationRepository(store, hooks),
+    reviewLogs: new MemoryReviewLogRepository(store, hooks),
+    trash,
+    scheduling: new MemorySchedulingRepository(store, hooks),
+    // Everything is already in memory
+    sync: { refresh: async () => {} }
+  };
+}
+
+/**
+ * Demo mode's repositories: memory repositories kept in the local store,
+ * where refreshing fills an empty account with the demo topics
+ */
+export function createDemoRepositories(store: LocalStore): Repositories {
+  const repositories = createMemoryRepositories(store, store.repositoryHooks);
+  const sync: SyncRepository = { refresh: userId => seedDemoData(repositories, userId) };
+  return { ...repositories, sync };
+}
+
+/**
+ * Fill a user's empty repositories with the demo topics and questions
+ */
+export async function seedDemoData(repositories: Repositories, userId: string): Promise<void> {
+  const existing = await repositories.topics.getUserTopics(userId);
+  if (existing.length > 0) return;
+
+  for (const { questions, ...topic } of DEMO_TOPICS) {
+    const topicId = await repositories.topics.createTopic(userId, topic);
+    for (const question of questions) {
+      await repositories.questions.createQuestion(userId, { ...question, topicId, generatedByAI: false });
+    }
+  }
+}
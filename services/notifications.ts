@@ -1,6 +1,9 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { progressService } from './firestore';
+import { addStudyDays, getTimeOnStudyDay } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+import { StreakService } from './streaks';
+import { VacationService } from './vacation';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -18,12 +21,20 @@ export interface NotificationSchedule {
   title: string;
   body: string;
   scheduledTime: Date;
+  badge?: number; // App icon badge once delivered; 1 when not given
   data?: any;
 }
 
 export class NotificationService {
   private static instance: NotificationService;
   private isInitialized = false;
+  private streaks: StreakService;
+  private vacations: VacationService;
+
+  constructor(private repositories: Repositories = appRepositories) {
+    this.streaks = new StreakService(repositories);
+    this.vacations = new VacationService(repositories);
+  }
 
   static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -89,31 +100,43 @@ export class NotificationService {
       await this.cancelNotificationsByTag('review-reminder');
 
       // Get questions due for review in the next 24 hours
-      const dueQuestions = await progressService.getDueQuestions(userId);
-      
+      const now = new Date();
+      const [dueQuestions, dueNow, vacations] = await Promise.all([
+        this.repositories.progress.getDueQuestions(userId, new Date(now.getTime() + 24 * 60 * 60 * 1000)),
+        this.repositories.progress.countDueQuestions(userId, now),
+        this.vacations.getUpcomingVacations(userId)
+      ]);
+
+      await this.setBadgeCount(dueNow);
       if (dueQuestions.length === 0) return;
 
-      // Group questions by review time (rounded to nearest hour)
-      const questionsByHour = new Map<string, number>();
+      // Group questions by the hour they come due in (independent of timezone)
+      const questionsByHour = new Map<number, number>();
+      const HOUR = 60 * 60 * 1000;
       
       dueQuestions.forEach(question => {
-        const reviewTime = new Date(question.nextReviewAt);
-        const hourKey = `${reviewTime.getFullYear()}-${reviewTime.getMonth()}-${reviewTime.getDate()}-${reviewTime.getHours()}`;
+        const hourKey = Math.ceil(question.nextReviewAt.getTime() / HOUR);
         questionsByHour.set(hourKey, (questionsByHour.get(hourKey) || 0) + 1);
       });
 
-      // Schedule notifications for each hour with due questions
-      for (const [hourKey, count] of questionsByHour) {
-        const [year, month, date, hour] = hourKey.split('-').map(Number);
-        const scheduledTime = new Date(year, month, date, hour, 0, 0);
+      // Schedule notifications for each hour with due questions, in order so
+      // the badge can show everything due by then
+      let dueBy = dueNow;
+      const hours = [...questionsByHour.keys()].sort((a, b) => a - b);
+      for (const hourKey of hours) {
+        const count = questionsByHour.get(hourKey)!;
+        const scheduledTime = new Date(hourKey * HOUR);
         
-        // Only schedule future notifications
-        if (scheduledTime > new Date()) {
+        // Only schedule future notifications, and none while on vacation
+        if (scheduledTime <= now) continue;
+        dueBy += count;
+        if (!this.vacations.isOnVacation(vacations, scheduledTime)) {
           await this.scheduleNotification({
             id: `review-${hourKey}`,
             title: '🧠 Time to Review!',
             body: `You have ${count} question${count > 1 ? 's' : ''} ready for review`,
             scheduledTime,
+            badge: dueBy,
             data: {
               type: 'review-reminder',
               questionCount: count,
@@ -141,13 +164,13 @@ export class NotificationService {
 
       if (!enabled) return;
 
-      const [hours, minutes] = reminderTime.split(':').map(Number);
-      
-      // Schedule for the next 7 days
+      // Schedule for the next 7 study days, at the reminder time in the user's timezone,
+      // skipping days on vacation
+      const now = new Date();
+      const vacations = await this.vacations.getUpcomingVacations(userId, now);
       for (let i = 1; i <= 7; i++) {
-        const scheduledTime = new Date();
-        scheduledTime.setDate(scheduledTime.getDate() + i);
-        scheduledTime.setHours(hours, minutes, 0, 0);
+        const scheduledTime = getTimeOnStudyDay(addStudyDays(now, i), reminderTime);
+        if (this.vacations.isOnVacation(vacations, scheduledTime)) continue;
 
         await this.scheduleNotification({
           id: `daily-goal-${i}`,
@@ -180,9 +203,10 @@ export class NotificationService {
       if (!enabled || currentStreak === 0) return;
 
       // Schedule reminder for tomorrow evening if user hasn't studied
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(20, 0, 0, 0); // 8 PM
+      const tomorrow = getTimeOnStudyDay(addStudyDays(new Date(), 1), '20:00'); // 8 PM
+
+      const vacations = await this.vacations.getUpcomingVacations(userId);
+      if (this.vacations.isOnVacation(vacations, tomorrow)) return;
 
       await this.scheduleNotification({
         id: 'streak-reminder-tomorrow',
@@ -200,6 +224,25 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Schedule every reminder again from the user's settings, so reminders
+   * pause when a vacation is planned and come back when it is cancelled
+   */
+  async rescheduleReminders(userId: string): Promise<void> {
+    const [settings, streak] = await Promise.all([
+      this.repositories.settings.getSettings(userId),
+      this.streaks.getStreak(userId)
+    ]);
+
+    if (settings?.enableReviewReminders ?? true) {
+      await this.scheduleReviewReminders(userId);
+    } else {
+      await this.cancelNotificationsByTag('review-reminder');
+    }
+    await this.scheduleDailyGoalReminder(userId, settings?.reminderTime, settings?.enableDailyGoals ?? true);
+    await this.scheduleStreakReminder(userId, streak.current, settings?.enableStreakReminders ?? true);
+  }
+
   /**
    * Schedule a single notification
    */
@@ -212,7 +255,7 @@ export class NotificationService {
           body: schedule.body,
           data: schedule.data || {},
           sound: 'default',
-          badge: 1,
+          badge: schedule.badge ?? 1,
         },
         trigger: {
           type: Notifications.SchedulableTriggerInputTypes.DATE,
@@ -0,0 +1,187 @@
+import { ReviewLog } from '@/types';
+import { appRepositories, Repositories } from './repositories';
+import { CardState, DEFAULT_FSRS_CONFIG, DEFAULT_FSRS_WEIGHTS, forgettingCurve, FsrsScheduler } from './schedulers';
+
+/**
+ * Scheduler Parameter Optimizer
+ * Fits FSRS weights to the user's own review history by minimising the log loss
+ * of the predicted probability of recall at each review.
+ */
+
+export interface OptimizerEvaluation {
+  logLoss: number;
+  predictedRetention: number; // mean predicted probability of recall (0-1)
+}
+
+export interface OptimizerResult {
+  reviewCount: number; // reviews with a prior review to predict from
+  actualRetention: number; // share of those reviews that were recalled (0-1)
+  before: OptimizerEvaluation;
+  after: OptimizerEvaluation;
+  weights: number[];
+}
+
+// Plausible range for each FSRS weight
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.75],
+  [0, 4.5], [0, 0.8], [0.01, 3.5], [0.1, 5],
+  [0.01, 0.25], [0.01, 0.9], [0.01, 4], [0, 1], [1, 6],
+];
+
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 50;
+
+/**
+ * Whether an answer was a review the FSRS model describes: a card's first
+ * answer or one given in the review state. Learning and relearning step
+ * answers come minutes apart and are left out. Logs from before learning
+ * steps existed have no previous state and were all reviews.
+ */
+export function isReviewStateAnswer(log: ReviewLog): boolean {
+  return log.previousLearningState === undefined ||
+    log.previousLearningState === 'new' ||
+    log.previousLearningState === 'review';
+}
+
+export class SchedulerOptimizer {
+  constructor(
+    private maxRounds: number = 20,
+    private initialStep: number = 0.2,
+    private repositories: Repositories = appRepositories
+  ) {}
+
+  /**
+   * Fit scheduler weights to a user's review history
+   */
+  async optimize(userId: string): Promise<OptimizerResult> {
+    const [logs, user] = await Promise.all([
+      this.repositories.reviewLogs.getUserReviewLogs(userId),
+      this.repositories.users.getUser(userId)
+    ]);
+
+    return this.fit(logs, user?.fsrsWeights ?? DEFAULT_FSRS_WEIGHTS);
+  }
+
+  /**
+   * Store fitted weights on the user's profile. They are only used by FSRS,
+   * so `switchToFsrs` also makes it the user's scheduler.
+   */
+  async acceptWeights(userId: string, weights: number[], switchToFsrs: boolean = false): Promise<void> {
+    await this.repositories.users.updateUser(userId, {
+      fsrsWeights: weights,
+      ...(switchToFsrs && { schedulerType: 'fsrs' as const })
+    });
+  }
+
+  /**
+   * Fit weights with coordinate descent, starting from the given weights
+   */
+  fit(logs: ReviewLog[], initialWeights: number[] = DEFAULT_FSRS_WEIGHTS): OptimizerResult {
+    const sequences = this.groupByQuestion(logs);
+    const reviewCount = sequences.reduce((sum, sequence) => sum + sequence.length - 1, 0);
+
+    if (reviewCount < MIN_REVIEWS_FOR_OPTIMIZATION) {
+      throw new Error(
+        `At least ${MIN_REVIEWS_FOR_OPTIMIZATION} repeat reviews are needed to optimize (found ${reviewCount})`
+      );
+    }
+
+    const before = this.evaluate(sequences, initialWeights);
+    let weights = [...initialWeights];
+    let bestLoss = before.logLoss;
+    let step = this.initialStep;
+
+    for (let round = 0; round < this.maxRounds && step > 0.005; round++) {
+      let improved = false;
+
+      for (let i = 0; i < weights.length; i++) {
+        for (const direction of [1, -1]) {
+          const candidate = [...weights];
+          const [min, max] = WEIGHT_BOUNDS[i];
+          candidate[i] = Math.min(Math.max(weights[i] * (1 + direction * step), min), max);
+          if (candidate[i] === weights[i]) continue;
+
+          const { logLoss } = this.evaluate(sequences, candidate);
+          if (logLoss < bestLoss) {
+            weights = candidate;
+            bestLoss = logLoss;
+            improved = true;
+            break;
+          }
+        }
+      }
+
+      if (!improved) {
+        step /= 2;
+      }
+    }
+
+    const recalled = sequences.reduce(
+      (sum, sequence) => sum + sequence.slice(1).filter(log => log.grade !== 'again').length,
+      0
+    );
+
+    return {
+      reviewCount,
+      actualRetention: recalled / reviewCount,
+      before,
+      after: this.evaluate(sequences, weights),
+      weights: weights.map(w => Math.round(w * 10000) / 10000)
+    };
+  }
+
+  /**
+   * Replay every question's history and score the predicted recall at each
+   * review. Learning and relearning step answers are skipped.
+   */
+  evaluate(sequences: ReviewLog[][], weights: number[]): OptimizerEvaluation {
+    const scheduler = new FsrsScheduler({ ...DEFAULT_FSRS_CONFIG, weights });
+    let loss = 0;
+    let predictedSum = 0;
+    let count = 0;
+
+    for (const sequence of sequences) {
+      let state: CardState | null = null;
+
+      for (const log of sequence.filter(isReviewStateAnswer)) {
+        if (state?.lastAnsweredAt && state.stability) {
+          const elapsedDays = (log.reviewedAt.getTime() - state.lastAnsweredAt.getTime()) / 86400000;
+          // Keep predictions away from 0 and 1 so a single miss can't dominate the loss
+          const p = Math.min(Math.max(forgettingCurve(Math.max(elapsedDays, 0), state.stability), 0.001), 0.999);
+          const recalled = log.grade !== 'again';
+
+          loss -= recalled ? Math.log(p) : Math.log(1 - p);
+          predictedSum += p;
+          count++;
+        }
+
+        state = scheduler.schedule(state, log.grade, log.reviewedAt).state;
+      }
+    }
+
+    return {
+      logLoss: count > 0 ? loss / count : 0,
+      predictedRetention: count > 0 ? predictedSum / count : 0
+    };
+  }
+
+  /**
+   * Split review-state answers into per-question histories, oldest first
+   */
+  private groupByQuestion(logs: ReviewLog[]): ReviewLog[][] {
+    const byQuestion = new Map<string, ReviewLog[]>();
+
+    logs.filter(isReviewStateAnswer).forEach(log => {
+      const sequence = byQuestion.get(log.questionId) || [];
+      sequence.push(log);
+      byQuestion.set(log.questionId, sequence);
+    });
+
+    return Array.from(byQuestion.values()).map(sequence =>
+      sequence.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+    );
+  }
+}
+
+// Export singleton instance
+export const schedulerOptimizer = new SchedulerOptimizer();
@@ -0,0 +1,161 @@
+import { DEMO_MODE } from '@/constants/Demo';
+import {
+  BacklogRecovery,
+  DeckPreset,
+  DueQuestionsCursor,
+  DueQuestionsPage,
+  NotificationSettings,
+  Progress,
+  Question,
+  ReviewLog,
+  SavedSearch,
+  SchedulerType,
+  Topic,
+  TrashEntry,
+  User,
+  Vacation
+} from '@/types';
+import { firestoreRepositories } from './firestore';
+import { localStore } from './localStore';
+import { createDemoRepositories } from './memoryRepositories';
+import type { SchedulingStore } from './schedulingStore';
+import { createOfflineRepositories } from './sync';
+
+/**
+ * Repositories
+ * Storage for profiles, settings, topics, questions, progress, presets,
+ * saved searches, vacations, the review log and the trash behind one
+ * interface per entity, along with the scheduling store the scheduling
+ * service runs on, so services and screens don't depend on Firestore. The app uses
+ * the Firestore repositories, with profiles and progress read from and
+ * written to the device's local store first (see services/sync.ts), or
+ * in-memory ones over the local store in demo mode, which runs without
+ * Firebase.
+ */
+
+export type NewTopic = Omit<Topic, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'questionCount' | 'completedQuestions'>;
+export type NewQuestion = Omit<Question, 'id' | 'userId' | 'createdAt'>;
+export type NewPreset = Omit<DeckPreset, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type UserUpdates = Partial<Omit<User, 'id' | 'createdAt' | 'lastLoginAt'>>;
+export type NotificationSettingsUpdates = Partial<Omit<NotificationSettings, 'id' | 'userId'>>;
+export type ProgressPatch = Partial<Omit<Progress, 'lastAnsweredAt' | 'nextReviewAt'>>;
+export type ProgressReschedule = { progressId: string; nextReviewAt: Date };
+
+export interface UserRepository {
+  getUser(userId: string): Promise<User | null>;
+  updateUser(userId: string, updates: UserUpdates): Promise<void>; // Creates the profile if missing
+  setBacklogRecovery(userId: string, recovery: BacklogRecovery | null): Promise<void>;
+}
+
+export interface NotificationSettingsRepository {
+  getSettings(userId: string): Promise<NotificationSettings | null>;
+  updateSettings(userId: string, updates: NotificationSettingsUpdates): Promise<void>; // Creates them if missing
+}
+
+export interface TopicRepository {
+  createTopic(userId: string, topicData: NewTopic, topicId?: string): Promise<string>; // With `topicId` when given, so it can be repeated
+  getUserTopics(userId: string): Promise<Topic[]>; // Newest first
+  getTopic(topicId: string): Promise<Topic | null>;
+  updateTopic(topicId: string, updates: Partial<Topic>): Promise<void>;
+  setDesiredRetention(topicId: string, desiredRetention: number | null): Promise<void>;
+  setPriority(topicId: string, priority: number | null): Promise<void>;
+  setSchedulerType(topicId: string, schedulerType: SchedulerType | null): Promise<void>;
+  incrementDailyCount(topicId: string, day: string, kind: 'newCards' | 'reviews', amount?: number): Promise<void>;
+  deleteTopic(topicId: string): Promise<void>; // With its questions and progress, skipping the trash
+}
+
+export interface QuestionRepository {
+  createQuestion(userId: string, questionData: NewQuestion, questionId?: string): Promise<string>; // Also queues it as a new card
+  getTopicQuestions(topicId: string): Promise<Question[]>; // Newest first
+  getQuestion(questionId: string): Promise<Question | null>;
+  updateQuestion(questionId: string, updates: Partial<Question>): Promise<void>; // Fields set to undefined are removed
+  deleteQuestion(questionId: string): Promise<void>; // With its progress, skipping the trash
+  updateTopicQuestionCount(topicId: string): Promise<void>;
+}
+
+export interface ProgressRepository {
+  createNewCard(userId: string, questionId: string, topicId: string): Promise<void>;
+  getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]>;
+  getTopicProgress(userId: string, topicId: string): Promise<Progress[]>;
+  getDueQuestionsPage(
+    userId: string,
+    until?: Date,
+    pageSize?: number,
+    cursor?: DueQuestionsCursor | null
+  ): Promise<DueQuestionsPage>;
+  getDueQuestions(userId: string, until?: Date): Promise<Progress[]>;
+  countDueQuestions(userId: string, until?: Date): Promise<number>;
+  getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]>;
+  getLeeches(userId: string): Promise<Progress[]>;
+  getProgress(progressId: string): Promise<Progress | null>;
+  updateProgress(userId: string, questionId: string, topicId: string, progressData: Partial<Progress>): Promise<void>;
+  patchProgress(progressId: string, updates: ProgressPatch): Promise<void>;
+  rescheduleProgress(progressId: string, nextReviewAt: Date): Promise<void>;
+  rescheduleAll(reschedules: ProgressReschedule[]): Promise<void>; // In write batches
+  shiftAllForVacation(reschedules: ProgressReschedule[], vacationId: string | null): Promise<void>; // In write batches
+  clearVacationShift(progressId: string): Promise<void>;
+  setReviewState(progressIds: string[]): Promise<void>; // For cards saved without a learning state, in write batches
+  restoreProgress(progressId: string, snapshot: Progress): Promise<void>;
+  deleteProgress(progressId: string): Promise<void>;
+}
+
+export interface PresetRepository {
+  createPreset(userId: string, presetData: NewPreset): Promise<string>;
+  getUserPresets(userId: string): Promise<DeckPreset[]>; // Oldest first
+  getPreset(presetId: string): Promise<DeckPreset | null>;
+  updatePreset(presetId: string, updates: Partial<DeckPreset>): Promise<void>;
+  deletePreset(presetId: string): Promise<void>;
+  ensureUserPresets(userId: string): Promise<DeckPreset[]>; // Creates the built-in presets on first use
+}
+
+export interface SavedSearchRepository {
+  createSavedSearch(userId: string, name: string, searchQuery: string): Promise<string>;
+  getUserSavedSearches(userId: string): Promise<SavedSearch[]>; // Oldest first
+  deleteSavedSearch(savedSearchId: string): Promise<void>;
+}
+
+export interface VacationRepository {
+  createVacation(vacation: Omit<Vacation, 'id' | 'createdAt'>): Promise<string>;
+  getUserVacations(userId: string): Promise<Vacation[]>; // Earliest first
+  deleteVacation(vacationId: string): Promise<void>;
+}
+
+// Entries are written with answers, through the scheduling store
+export interface ReviewLogRepository {
+  getUserReviewLogs(userId: string, since?: Date): Promise<ReviewLog[]>; // Oldest first
+  getQuestionReviewLogs(userId: string, questionId: string): Promise<ReviewLog[]>; // Oldest first
+}
+
+export interface TrashRepository {
+  trashTopic(topicId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry>; // Takes its questions and progress along
+  trashQuestion(questionId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry>; // Takes its progress along
+  getUserTrash(userId: string): Promise<TrashEntry[]>; // Most recently deleted first
+  getExpiredTrash(userId: string, now?: Date): Promise<TrashEntry[]>;
+  restore(entryId: string): Promise<void>; // Throws for a question whose topic is gone
+  purge(entryId: string): Promise<void>;
+}
+
+// Keeps a copy of the user's data on the device in step with the server
+export interface SyncRepository {
+  refresh(userId: string): Promise<void>; // Fetch a fresh copy of the user's data
+}
+
+export interface Repositories {
+  users: UserRepository;
+  settings: NotificationSettingsRepository;
+  topics: TopicRepository;
+  questions: QuestionRepository;
+  progress: ProgressRepository;
+  presets: PresetRepository;
+  savedSearches: SavedSearchRepository;
+  vacations: VacationRepository;
+  reviewLogs: ReviewLogRepository;
+  trash: TrashRepository;
+  scheduling: SchedulingStore; // What the scheduling service reads and writes
+  sync: SyncRepository;
+}
+
+// Repositories the app runs on
+export const appRepositories: Repositories = DEMO_MODE
+  ? createDemoRepositories(localStore)
+  : createOfflineRepositories(firestoreRepositories);
@@ -0,0 +1,147 @@
+import { Progress, ReviewOrder, Topic } from '@/types';
+
+/**
+ * Review Order
+ * Strategies for mixing due cards from different topics. Cards arrive sorted
+ * by urgency (overdue first, then least likely to be recalled), which is the
+ * 'due' order; the other strategies rearrange that list.
+ */
+
+export const DEFAULT_TOPIC_PRIORITY = 1;
+
+// Topic weights offered in settings
+export const TOPIC_PRIORITY_OPTIONS: { priority: number; label: string }[] = [
+  { priority: 0.5, label: 'Low' },
+  { priority: 1, label: 'Normal' },
+  { priority: 2, label: 'High' },
+  { priority: 3, label: 'Top' },
+];
+
+// SM-2 ease factors mapped onto the 0-1 difficulty scale
+const EASIEST_EASE = 3.0;
+const HARDEST_EASE = 1.3;
+
+export class ReviewOrderService {
+  /**
+   * Reorder cards with the given strategy. Topics supply priority weights;
+   * random is injectable so the order can be reproduced.
+   */
+  order<T extends Progress>(
+    cards: T[],
+    strategy: ReviewOrder,
+    topics: Topic[] = [],
+    random: () => number = Math.random
+  ): T[] {
+    switch (strategy) {
+      case 'round_robin':
+        return this.roundRobin(cards);
+      case 'weighted':
+        return this.weighted(cards, topics);
+      case 'random':
+        return this.shuffle(cards, random);
+      case 'hardest_first':
+        return this.hardestFirst(cards);
+      default:
+        return [...cards];
+    }
+  }
+
+  /**
+   * How hard a card is on a 0-1 scale, from FSRS difficulty or the SM-2 ease
+   * factor. Cards never answered count as average.
+   */
+  getDifficulty(progress: Progress): number {
+    if (progress.schedulerType === 'fsrs' && progress.difficulty !== undefined) {
+      return Math.min(Math.max((progress.difficulty - 1) / 9, 0), 1);
+    }
+    if (progress.easeFactor !== undefined) {
+      return Math.min(Math.max((EASIEST_EASE - progress.easeFactor) / (EASIEST_EASE - HARDEST_EASE), 0), 1);
+    }
+    return 0.5;
+  }
+
+  /**
+   * One card from each topic in turn. Topics take turns in the order their
+   * most urgent card appears.
+   */
+  private roundRobin<T extends Progress>(cards: T[]): T[] {
+    const groups = this.groupByTopic(cards);
+    const result: T[] = [];
+
+    while (result.length < cards.length) {
+      groups.forEach(group => {
+        const card = group.shift();
+        if (card) result.push(card);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Topics get a share of each stretch of the queue proportional to their
+   * priority, spread out with smooth weighted round-robin so a heavy topic
+   * doesn't come in long runs
+   */
+  private weighted<T extends Progress>(cards: T[], topics: Topic[]): T[] {
+    const groups = this.groupByTopic(cards);
+    const weights = new Map(topics.map(topic => [topic.id, topic.priority ?? DEFAULT_TOPIC_PRIORITY]));
+    const credit = new Map<string, number>();
+    const result: T[] = [];
+
+    while (result.length < cards.length) {
+      const active = [...groups.entries()].filter(([, group]) => group.length > 0);
+      const weightOf = (topicId: string) => Math.max(weights.get(topicId) ?? DEFAULT_TOPIC_PRIORITY, 0.01);
+      const totalWeight = active.reduce((sum, [topicId]) => sum + weightOf(topicId), 0);
+
+      let picked = active[0][0];
+      active.forEach(([topicId]) => {
+        credit.set(topicId, (credit.get(topicId) ?? 0) + weightOf(topicId));
+        if (credit.get(topicId)! > credit.get(picked)!) picked = topicId;
+      });
+
+      credit.set(picked, credit.get(picked)! - totalWeight);
+      result.push(groups.get(picked)!.shift()!);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fisher-Yates shuffle
+   */
+  private shuffle<T>(cards: T[], random: () => number): T[] {
+    const result = [...cards];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Hardest cards first, then those forgotten most often. Ties keep their
+   * urgency order.
+   */
+  private hardestFirst<T extends Progress>(cards: T[]): T[] {
+    return [...cards].sort((a, b) =>
+      this.getDifficulty(b) - this.getDifficulty(a) || (b.lapses || 0) - (a.lapses || 0)
+    );
+  }
+
+  /**
+   * Cards per topic, keeping their order within each topic
+   */
+  private groupByTopic<T extends Progress>(cards: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    cards.forEach(card => {
+      const group = groups.get(card.topicId) ?? [];
+      group.push(card);
+      groups.set(card.topicId, group);
+    });
+    return groups;
+  }
+}
+
+// Export singleton instance
+export const reviewOrderService = new ReviewOrderService();
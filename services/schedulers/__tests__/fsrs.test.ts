@@ -0,0 +1,85 @@
+import { DEFAULT_FSRS_CONFIG, DEFAULT_FSRS_WEIGHTS, forgettingCurve, FsrsScheduler } from '../fsrs';
+import { addHours } from '../types';
+
+const now = new Date('2025-01-01T12:00:00Z');
+
+describe('forgettingCurve', () => {
+  it('predicts full recall right after a review', () => {
+    expect(forgettingCurve(0, 5)).toBe(1);
+  });
+
+  it('predicts 90% recall after one stability', () => {
+    expect(forgettingCurve(5, 5)).toBeCloseTo(0.9, 10);
+  });
+
+  it('keeps falling over time', () => {
+    expect(forgettingCurve(10, 5)).toBeLessThan(forgettingCurve(5, 5));
+  });
+});
+
+describe('FsrsScheduler', () => {
+  const scheduler = new FsrsScheduler();
+
+  it('starts new cards from the weight for their first grade', () => {
+    const { state, nextReviewAt } = scheduler.schedule(null, 'good', now);
+
+    expect(state.stability).toBe(DEFAULT_FSRS_WEIGHTS[2]);
+    expect(state.difficulty).toBe(DEFAULT_FSRS_WEIGHTS[4]);
+    expect(state.reviewInterval).toBe(Math.round(DEFAULT_FSRS_WEIGHTS[2] * 24));
+    expect(nextReviewAt).toEqual(addHours(now, state.reviewInterval));
+  });
+
+  it('makes easier first answers last longer', () => {
+    const again = scheduler.schedule(null, 'again', now).state;
+    const easy = scheduler.schedule(null, 'easy', now).state;
+
+    expect(easy.stability!).toBeGreaterThan(again.stability!);
+    expect(easy.difficulty!).toBeLessThan(again.difficulty!);
+  });
+
+  it('raises stability on a correct review and never on a lapse', () => {
+    const first = scheduler.schedule(null, 'good', now);
+    const due = first.nextReviewAt;
+
+    const recalled = scheduler.schedule(first.state, 'good', due).state;
+    const forgotten = scheduler.schedule(first.state, 'again', due).state;
+
+    expect(recalled.stability!).toBeGreaterThan(first.state.stability!);
+    expect(recalled.consecutiveCorrect).toBe(2);
+    expect(forgotten.stability!).toBeLessThanOrEqual(first.state.stability!);
+    expect(forgotten.consecutiveCorrect).toBe(0);
+  });
+
+  it('keeps difficulty between 1 and 10', () => {
+    let result = scheduler.schedule(null, 'again', now);
+    for (let i = 0; i < 20; i++) {
+      result = scheduler.schedule(result.state, 'again', result.nextReviewAt);
+    }
+
+    expect(result.state.difficulty).toBeLessThanOrEqual(10);
+    expect(result.state.difficulty).toBeGreaterThanOrEqual(1);
+  });
+
+  it('estimates stability from the interval of cards moved from another scheduler', () => {
+    const { state } = scheduler.schedule(
+      { reviewInterval: 48, consecutiveCorrect: 3, lastAnsweredAt: addHours(now, -48) },
+      'good',
+      now
+    );
+
+    expect(state.stability!).toBeGreaterThan(2);
+  });
+
+  it('picks shorter intervals for higher retention targets', () => {
+    const strict = new FsrsScheduler({ ...DEFAULT_FSRS_CONFIG, requestRetention: 0.95 });
+
+    expect(strict.nextInterval(10)).toBeLessThan(scheduler.nextInterval(10));
+    expect(scheduler.nextInterval(10)).toBe(240);
+  });
+
+  it('caps intervals at the maximum', () => {
+    const capped = new FsrsScheduler({ ...DEFAULT_FSRS_CONFIG, maximumInterval: 24 });
+
+    expect(capped.nextInterval(100)).toBe(24);
+  });
+});
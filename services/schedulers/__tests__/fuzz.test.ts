@@ -0,0 +1,50 @@
+import { createSeededRandom } from '../clock';
+import { fuzzInterval, getFuzzRange, MIN_FUZZ_INTERVAL } from '../fuzz';
+
+describe('getFuzzRange', () => {
+  it('leaves short intervals alone', () => {
+    expect(getFuzzRange(1)).toEqual([1, 1]);
+  });
+
+  it('allows a wider share of the interval for shorter intervals', () => {
+    expect(getFuzzRange(100)).toEqual([85, 115]);
+    expect(getFuzzRange(240)).toEqual([216, 264]);
+    expect(getFuzzRange(1000)).toEqual([950, 1050]);
+  });
+
+  it('moves the due date by at least an hour', () => {
+    expect(getFuzzRange(4)).toEqual([3, 5]);
+  });
+
+  it('never goes below the minimum fuzz interval', () => {
+    expect(getFuzzRange(MIN_FUZZ_INTERVAL)[0]).toBe(MIN_FUZZ_INTERVAL);
+  });
+
+  it('never goes past the maximum interval', () => {
+    expect(getFuzzRange(1000, 1000)).toEqual([950, 1000]);
+    expect(getFuzzRange(1000, 900)).toEqual([900, 900]);
+  });
+});
+
+describe('fuzzInterval', () => {
+  it('picks the ends of the range for the ends of the random source', () => {
+    expect(fuzzInterval(100, () => 0)).toBe(85);
+    expect(fuzzInterval(100, () => 0.999999)).toBe(115);
+  });
+
+  it('stays within the range', () => {
+    const random = createSeededRandom(42);
+    for (let i = 0; i < 100; i++) {
+      const fuzzed = fuzzInterval(500, random, 520);
+      expect(fuzzed).toBeGreaterThanOrEqual(475);
+      expect(fuzzed).toBeLessThanOrEqual(520);
+    }
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    const first = fuzzInterval(200, createSeededRandom(7));
+    const second = fuzzInterval(200, createSeededRandom(7));
+
+    expect(first).toBe(second);
+  });
+});
@@ -0,0 +1,84 @@
+import { LearningStepsScheduler } from '../learningSteps';
+import { addHours, addMinutes, CardState, Scheduler } from '../types';
+
+const now = new Date('2025-01-01T12:00:00Z');
+
+// Inner scheduler that always gives a one-day interval, or one hour after a lapse
+const inner: Scheduler = {
+  type: 'sm2',
+  version: 'test',
+  schedule: (state, grade, at) => {
+    const reviewInterval = grade === 'again' ? 1 : 24;
+    return {
+      state: { ...state, reviewInterval, consecutiveCorrect: 0, lastAnsweredAt: at },
+      nextReviewAt: addHours(at, reviewInterval)
+    };
+  }
+};
+
+describe('LearningStepsScheduler', () => {
+  const scheduler = new LearningStepsScheduler(inner, [1, 10], [10]);
+
+  it('starts new cards on the first step after a wrong answer', () => {
+    const { state, nextReviewAt } = scheduler.schedule(null, 'again', now);
+
+    expect(state.learningState).toBe('learning');
+    expect(state.learningStep).toBe(0);
+    expect(nextReviewAt).toEqual(addMinutes(now, 1));
+  });
+
+  it('moves to the next step on good and repeats the step on hard', () => {
+    const good = scheduler.schedule(null, 'good', now);
+    expect(good.state.learningStep).toBe(1);
+    expect(good.nextReviewAt).toEqual(addMinutes(now, 10));
+
+    const hard = scheduler.schedule(good.state, 'hard', now);
+    expect(hard.state.learningStep).toBe(1);
+    expect(hard.nextReviewAt).toEqual(addMinutes(now, 10));
+  });
+
+  it('graduates after the last step with the inner first interval', () => {
+    const learning: CardState = {
+      reviewInterval: 0,
+      consecutiveCorrect: 1,
+      learningState: 'learning',
+      learningStep: 1
+    };
+    const { state, nextReviewAt } = scheduler.schedule(learning, 'good', now);
+
+    expect(state.learningState).toBe('review');
+    expect(state.learningStep).toBe(0);
+    expect(nextReviewAt).toEqual(addHours(now, 24));
+  });
+
+  it('graduates straight away on easy', () => {
+    const { state } = scheduler.schedule(null, 'easy', now);
+
+    expect(state.learningState).toBe('review');
+  });
+
+  it('sends lapsed review cards through the relearning steps', () => {
+    const review: CardState = { reviewInterval: 24, consecutiveCorrect: 3, learningState: 'review' };
+    const lapse = scheduler.schedule(review, 'again', now);
+
+    expect(lapse.state.learningState).toBe('relearning');
+    expect(lapse.state.reviewInterval).toBe(1);
+    expect(lapse.nextReviewAt).toEqual(addMinutes(now, 10));
+
+    const relearned = scheduler.schedule(lapse.state, 'good', now);
+    expect(relearned.state.learningState).toBe('review');
+    expect(relearned.nextReviewAt).toEqual(addHours(now, 1));
+  });
+
+  it('skips relearning when there are no relearning steps', () => {
+    const noRelearning = new LearningStepsScheduler(inner, [1], []);
+    const { state, nextReviewAt } = noRelearning.schedule(
+      { reviewInterval: 24, consecutiveCorrect: 3 },
+      'again',
+      now
+    );
+
+    expect(state.learningState).toBe('review');
+    expect(nextReviewAt).toEqual(addHours(now, 1));
+  });
+});
@@ -0,0 +1,73 @@
+import type { SpacedRepetitionConfig } from '../../spacedRepetition';
+import { Sm2Scheduler } from '../sm2';
+
+const config: SpacedRepetitionConfig = {
+  initialInterval: 5,
+  maxInterval: 30 * 24,
+  minInterval: 1,
+  initialEase: 2.5,
+  minEase: 1.3,
+  easyBonus: 1.3,
+  hardPenalty: 2,
+  intervalModifier: 1,
+};
+
+const now = new Date('2025-01-01T12:00:00Z');
+
+describe('Sm2Scheduler', () => {
+  const scheduler = new Sm2Scheduler(config);
+
+  it('doubles the initial interval on the first correct answer', () => {
+    const { state, nextReviewAt } = scheduler.schedule(null, 'good', now);
+
+    expect(state.reviewInterval).toBe(10);
+    expect(state.consecutiveCorrect).toBe(1);
+    expect(state.easeFactor).toBe(2.5);
+    expect(state.lastAnsweredAt).toEqual(now);
+    expect(nextReviewAt).toEqual(new Date('2025-01-01T22:00:00Z'));
+  });
+
+  it('grows later intervals by the card ease factor', () => {
+    const { state } = scheduler.schedule(
+      { reviewInterval: 10, consecutiveCorrect: 1, easeFactor: 2 },
+      'good',
+      now
+    );
+
+    expect(state.reviewInterval).toBe(20);
+    expect(state.consecutiveCorrect).toBe(2);
+  });
+
+  it('resets to the minimum interval and lowers ease on a lapse', () => {
+    const { state } = scheduler.schedule(
+      { reviewInterval: 100, consecutiveCorrect: 4, easeFactor: 2.5 },
+      'again',
+      now
+    );
+
+    expect(state.reviewInterval).toBe(config.minInterval);
+    expect(state.consecutiveCorrect).toBe(0);
+    expect(state.easeFactor).toBe(2.3);
+  });
+
+  it('never lowers ease below the minimum', () => {
+    expect(scheduler.nextEaseFactor(1.35, 'again')).toBe(config.minEase);
+    expect(scheduler.nextEaseFactor(2.5, 'easy')).toBe(2.65);
+  });
+
+  it('divides the interval by the hard penalty', () => {
+    expect(scheduler.calculateNextInterval(40, 'hard', 3)).toBe(20);
+    expect(scheduler.calculateNextInterval(1.5, 'hard', 3)).toBe(config.minInterval);
+  });
+
+  it('keeps intervals within the maximum', () => {
+    expect(scheduler.calculateNextInterval(config.maxInterval, 'easy', 5)).toBe(config.maxInterval);
+  });
+
+  it('scales correct answers by the interval modifier', () => {
+    const shorter = new Sm2Scheduler({ ...config, intervalModifier: 0.5 });
+
+    expect(shorter.calculateNextInterval(10, 'good', 2, 2)).toBe(10);
+    expect(shorter.calculateNextInterval(10, 'again', 2, 2)).toBe(config.minInterval);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Clock
+ * Source of the current time for scheduling, so code that depends on "now"
+ * can run against a fixed or simulated time.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start: Date) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  set(date: Date): void {
+    this.time = date.getTime();
+  }
+
+  advance(minutes: number): void {
+    this.time += minutes * 60 * 1000;
+  }
+}
+
+/**
+ * Small seeded PRNG (mulberry32), for reproducible runs
+ */
+export function createSeededRandom(seed: number): () => number {
+  let t = seed;
+  return () => {
+    t = (t + 0x6d2b79f5) | 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,145 @@
+import { ReviewGrade } from '@/types';
+import { addHours, CardState, Scheduler, SchedulingResult } from './types';
+
+/**
+ * Free Spaced Repetition Scheduler (FSRS v4.5)
+ * Models each card's memory with stability (days until recall drops to 90%)
+ * and difficulty (1-10), and picks the interval that hits the requested retention.
+ */
+
+export interface FsrsConfig {
+  weights: number[]; // 17 model weights
+  requestRetention: number; // target probability of recall (0-1)
+  maximumInterval: number; // hours
+}
+
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export const DEFAULT_FSRS_CONFIG: FsrsConfig = {
+  weights: DEFAULT_FSRS_WEIGHTS,
+  requestRetention: 0.9,
+  maximumInterval: 36500 * 24, // 100 years
+};
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S) = 0.9
+const HOURS_PER_DAY = 24;
+
+const GRADE_VALUES: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+/**
+ * Probability of recalling a card `elapsedDays` after the last review
+ */
+export function forgettingCurve(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * (elapsedDays / stability), DECAY);
+}
+
+export class FsrsScheduler implements Scheduler {
+  readonly type = 'fsrs' as const;
+  readonly version = 'fsrs-4.5';
+
+  constructor(private config: FsrsConfig = DEFAULT_FSRS_CONFIG) {}
+
+  schedule(state: CardState | null, grade: ReviewGrade, now: Date): SchedulingResult {
+    const g = GRADE_VALUES[grade];
+    const isCorrect = grade !== 'again';
+    let stability: number;
+    let difficulty: number;
+
+    if (!state || !state.lastAnsweredAt || state.reviewInterval <= 0) {
+      // First review
+      stability = this.initialStability(g);
+      difficulty = this.initialDifficulty(g);
+    } else {
+      // Cards scheduled by another algorithm have no memory state yet:
+      // their current interval is the best estimate of stability
+      const lastStability = state.stability ?? state.reviewInterval / HOURS_PER_DAY;
+      const lastDifficulty = state.difficulty ?? this.initialDifficulty(GRADE_VALUES.good);
+      const elapsedDays = Math.max(0, (now.getTime() - state.lastAnsweredAt.getTime()) / 86400000);
+      const retrievability = forgettingCurve(elapsedDays, lastStability);
+
+      difficulty = this.nextDifficulty(lastDifficulty, g);
+      stability = isCorrect
+        ? this.nextRecallStability(lastDifficulty, lastStability, retrievability, g)
+        : this.nextForgetStability(lastDifficulty, lastStability, retrievability);
+    }
+
+    const reviewInterval = this.nextInterval(stability);
+
+    return {
+      state: {
+        ...state,
+        reviewInterval,
+        consecutiveCorrect: isCorrect ? (state?.consecutiveCorrect || 0) + 1 : 0,
+        lastAnsweredAt: now,
+        stability,
+        difficulty
+      },
+      nextReviewAt: addHours(now, reviewInterval)
+    };
+  }
+
+  /**
+   * Interval (hours) at which predicted recall falls to the requested retention
+   */
+  nextInterval(stability: number): number {
+    const days = (stability / FACTOR) * (Math.pow(this.config.requestRetention, 1 / DECAY) - 1);
+    const hours = Math.round(days * HOURS_PER_DAY);
+    return Math.min(Math.max(hours, 1), this.config.maximumInterval);
+  }
+
+  private initialStability(g: number): number {
+    return Math.max(this.config.weights[g - 1], 0.1);
+  }
+
+  private initialDifficulty(g: number): number {
+    const w = this.config.weights;
+    return this.clampDifficulty(w[4] - (g - 3) * w[5]);
+  }
+
+  private nextDifficulty(d: number, g: number): number {
+    const w = this.config.weights;
+    const next = d - w[6] * (g - 3);
+    // Mean reversion towards the difficulty of a "good" first answer
+    return this.clampDifficulty(w[7] * this.initialDifficulty(3) + (1 - w[7]) * next);
+  }
+
+  private nextRecallStability(d: number, s: number, r: number, g: number): number {
+    const w = this.config.weights;
+    const hardPenalty = g === 2 ? w[15] : 1;
+    const easyBonus = g === 4 ? w[16] : 1;
+
+    return s * (
+      1 +
+      Math.exp(w[8]) *
+      (11 - d) *
+      Math.pow(s, -w[9]) *
+      (Math.exp((1 - r) * w[10]) - 1) *
+      hardPenalty *
+      easyBonus
+    );
+  }
+
+  private nextForgetStability(d: number, s: number, r: number): number {
+    const w = this.config.weights;
+    const next =
+      w[11] *
+      Math.pow(d, -w[12]) *
+      (Math.pow(s + 1, w[13]) - 1) *
+      Math.exp((1 - r) * w[14]);
+    // A lapse never increases stability
+    return Math.min(next, s);
+  }
+
+  private clampDifficulty(d: number): number {
+    return Math.min(Math.max(d, 1), 10);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Interval fuzz
+ * Spreads cards that would otherwise share an interval (e.g. a batch of
+ * generated questions answered together) across a small range around it.
+ */
+
+// Intervals shorter than this are left exactly as scheduled
+export const MIN_FUZZ_INTERVAL = 2; // hours
+
+// Share of the interval the due date may move by, for intervals up to each limit
+const FUZZ_RANGES: { upTo: number; factor: number }[] = [
+  { upTo: 7 * 24, factor: 0.15 },
+  { upTo: 20 * 24, factor: 0.1 },
+  { upTo: Infinity, factor: 0.05 },
+];
+
+/**
+ * Range (hours) an interval may be fuzzed within, never past the deck's
+ * maximum interval
+ */
+export function getFuzzRange(interval: number, maxInterval: number = Infinity): [number, number] {
+  if (interval < MIN_FUZZ_INTERVAL) {
+    return [interval, interval];
+  }
+
+  const { factor } = FUZZ_RANGES.find(range => interval <= range.upTo)!;
+  const delta = Math.max(interval * factor, 1);
+  const max = Math.min(interval + delta, maxInterval);
+  return [Math.min(Math.max(interval - delta, MIN_FUZZ_INTERVAL), max), max];
+}
+
+/**
+ * Pick a random interval within the fuzz range
+ */
+export function fuzzInterval(
+  interval: number,
+  random: () => number = Math.random,
+  maxInterval: number = Infinity
+): number {
+  const [min, max] = getFuzzRange(interval, maxInterval);
+  const fuzzed = Math.round((min + random() * (max - min)) * 100) / 100;
+  return Math.min(fuzzed, max);
+}
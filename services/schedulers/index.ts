@@ -0,0 +1,6 @@
+export * from './clock';
+export * from './fsrs';
+export * from './fuzz';
+export * from './learningSteps';
+export * from './sm2';
+export * from './types';
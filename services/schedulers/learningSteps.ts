@@ -0,0 +1,108 @@
+import { ReviewGrade } from '@/types';
+import { addMinutes, CardState, Scheduler, SchedulingResult } from './types';
+
+/**
+ * Learning Steps Scheduler
+ * Walks new and lapsed cards through short minute-level steps before handing
+ * them to the wrapped scheduler. While a card is learning or relearning its
+ * reviewInterval holds the interval it will get once it graduates.
+ */
+export class LearningStepsScheduler implements Scheduler {
+  readonly type: Scheduler['type'];
+  readonly version: string;
+
+  constructor(
+    private inner: Scheduler,
+    private learningSteps: number[], // minutes
+    private relearningSteps: number[] // minutes
+  ) {
+    this.type = inner.type;
+    this.version = inner.version;
+  }
+
+  schedule(state: CardState | null, grade: ReviewGrade, now: Date): SchedulingResult {
+    const learningState = state?.learningState ?? (state ? 'review' : 'new');
+
+    switch (learningState) {
+      case 'new':
+      case 'learning':
+        return this.step(state, grade, now, this.learningSteps, 'learning', () =>
+          // Graduating cards get the scheduler's first-review interval
+          this.graduate(this.inner.schedule(null, grade, now))
+        );
+
+      case 'relearning':
+        return this.step(state, grade, now, this.relearningSteps, 'relearning', () =>
+          // The lapse interval was already computed when the card was failed
+          this.graduate({
+            state: { ...state!, lastAnsweredAt: now },
+            nextReviewAt: addMinutes(now, state!.reviewInterval * 60)
+          })
+        );
+
+      case 'review': {
+        const result = this.inner.schedule(state, grade, now);
+        if (grade !== 'again' || this.relearningSteps.length === 0) {
+          return this.graduate(result);
+        }
+
+        return {
+          state: { ...result.state, learningState: 'relearning', learningStep: 0 },
+          nextReviewAt: addMinutes(now, this.relearningSteps[0])
+        };
+      }
+    }
+  }
+
+  /**
+   * Move a card through its steps, graduating it after the last one
+   */
+  private step(
+    state: CardState | null,
+    grade: ReviewGrade,
+    now: Date,
+    steps: number[],
+    learningState: 'learning' | 'relearning',
+    graduate: () => SchedulingResult
+  ): SchedulingResult {
+    const currentStep = state?.learningState === learningState ? (state.learningStep ?? 0) : 0;
+    let nextStep: number;
+
+    switch (grade) {
+      case 'again':
+        nextStep = 0;
+        break;
+      case 'hard':
+        nextStep = currentStep;
+        break;
+      case 'good':
+        nextStep = currentStep + 1;
+        break;
+      case 'easy':
+        return graduate();
+    }
+
+    if (nextStep >= steps.length) {
+      return graduate();
+    }
+
+    return {
+      state: {
+        reviewInterval: state?.reviewInterval ?? 0,
+        ...state,
+        consecutiveCorrect: grade === 'again' ? 0 : (state?.consecutiveCorrect || 0) + 1,
+        lastAnsweredAt: now,
+        learningState,
+        learningStep: nextStep
+      },
+      nextReviewAt: addMinutes(now, steps[nextStep])
+    };
+  }
+
+  private graduate(result: SchedulingResult): SchedulingResult {
+    return {
+      ...result,
+      state: { ...result.state, learningState: 'review', learningStep: 0 }
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { ReviewGrade } from '@/types';
+import type { SpacedRepetitionConfig } from '../spacedRepetition';
+import { addHours, CardState, Scheduler, SchedulingResult } from './types';
+
+/**
+ * SM-2 scheduler
+ * Each card carries its own ease factor: Again and Hard lower it, Easy raises it,
+ * and correct answers grow the interval by it. The interval modifier stretches
+ * or shrinks correct-answer intervals to match the desired retention.
+ */
+export class Sm2Scheduler implements Scheduler {
+  readonly type = 'sm2' as const;
+  readonly version = 'sm2-v2';
+
+  constructor(private config: SpacedRepetitionConfig) {}
+
+  schedule(state: CardState | null, grade: ReviewGrade, now: Date): SchedulingResult {
+    const isCorrect = grade !== 'again';
+    const consecutiveCorrect = isCorrect ? (state?.consecutiveCorrect || 0) + 1 : 0;
+    const currentInterval = state?.reviewInterval || this.config.initialInterval;
+    const easeFactor = this.nextEaseFactor(state?.easeFactor ?? this.config.initialEase, grade);
+
+    const reviewInterval = this.calculateNextInterval(
+      currentInterval,
+      grade,
+      consecutiveCorrect,
+      easeFactor
+    );
+
+    return {
+      state: {
+        ...state,
+        reviewInterval,
+        consecutiveCorrect,
+        lastAnsweredAt: now,
+        easeFactor
+      },
+      nextReviewAt: addHours(now, reviewInterval)
+    };
+  }
+
+  /**
+   * Adjust a card's ease factor for an answer
+   */
+  nextEaseFactor(easeFactor: number, performance: ReviewGrade): number {
+    const adjustments: Record<ReviewGrade, number> = {
+      again: -0.2,
+      hard: -0.15,
+      good: 0,
+      easy: 0.15,
+    };
+
+    const next = easeFactor + adjustments[performance];
+    return Math.round(Math.max(next, this.config.minEase) * 100) / 100;
+  }
+
+  /**
+   * Calculate the next review interval based on performance and the card's ease
+   */
+  calculateNextInterval(
+    currentInterval: number,
+    performance: ReviewGrade,
+    consecutiveCorrect: number = 0,
+    easeFactor: number = this.config.initialEase
+  ): number {
+    let newInterval = currentInterval;
+
+    switch (performance) {
+      case 'again':
+        // Reset to minimum interval for failed recall
+        newInterval = this.config.minInterval;
+        break;
+
+      case 'hard':
+        // Reduce interval but don't go below minimum
+        newInterval = Math.max(
+          currentInterval / this.config.hardPenalty,
+          this.config.minInterval
+        );
+        break;
+
+      case 'good':
+        // Standard progression
+        if (consecutiveCorrect === 0) {
+          newInterval = this.config.initialInterval;
+        } else if (consecutiveCorrect === 1) {
+          newInterval = this.config.initialInterval * 2; // 10 hours
+        } else {
+          newInterval = currentInterval * easeFactor;
+        }
+        break;
+
+      case 'easy':
+        // Accelerated progression
+        if (consecutiveCorrect <= 1) {
+          newInterval = this.config.initialInterval * 2 * this.config.easyBonus;
+        } else {
+          newInterval = currentInterval * easeFactor * this.config.easyBonus;
+        }
+        break;
+    }
+
+    if (performance !== 'again') {
+      newInterval *= this.config.intervalModifier;
+    }
+
+    // Ensure interval stays within bounds
+    return Math.min(Math.max(newInterval, this.config.minInterval), this.config.maxInterval);
+  }
+}
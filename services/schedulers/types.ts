@@ -0,0 +1,44 @@
+import { LearningState, ReviewGrade, SchedulerType } from '@/types';
+
+/**
+ * Scheduling state of a single card, independent of how it is stored
+ */
+export interface CardState {
+  reviewInterval: number; // hours
+  consecutiveCorrect: number;
+  lastAnsweredAt?: Date;
+  easeFactor?: number; // SM-2
+  stability?: number; // days (FSRS)
+  difficulty?: number; // 1-10 (FSRS)
+  learningState?: LearningState;
+  learningStep?: number; // index into the learning or relearning steps
+}
+
+export interface SchedulingResult {
+  state: CardState;
+  nextReviewAt: Date;
+}
+
+/**
+ * A scheduler turns a card's state and an answer into the next state and due date
+ */
+export interface Scheduler {
+  readonly type: SchedulerType;
+  readonly version: string;
+
+  schedule(state: CardState | null, grade: ReviewGrade, now: Date): SchedulingResult;
+}
+
+/**
+ * Add a (possibly fractional) number of hours to a date
+ */
+export function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Add a number of minutes to a date
+ */
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
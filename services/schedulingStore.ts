@@ -0,0 +1,232 @@
+import {
+  AnswerCommit,
+  AnswerUndo,
+  DeckPreset,
+  NotificationSettings,
+  Progress,
+  Question,
+  ReviewLog,
+  SavedSearch,
+  Topic,
+  TrashEntry,
+  User,
+  Vacation
+} from '@/types';
+import type { ProgressPatch } from './repositories';
+
+/**
+ * Scheduling Store
+ * Everything the scheduling service reads and writes, behind one port so the
+ * same scheduling code runs against Firestore or the device's copy in the app
+ * and in memory in the simulator. The Firestore store lives with the other
+ * Firestore services.
+ */
+
+export type DailyCountKind = 'newCards' | 'reviews';
+
+export interface SchedulingStore {
+  getUser(userId: string): Promise<User | null>;
+  getTopic(topicId: string): Promise<Topic | null>;
+  getUserTopics(userId: string): Promise<Topic[]>;
+  getPreset(presetId: string): Promise<DeckPreset | null>;
+  getUserPresets(userId: string): Promise<DeckPreset[]>;
+
+  getProgress(progressId: string): Promise<Progress | null>;
+  getDueQuestions(userId: string, until: Date): Promise<Progress[]>;
+  getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]>;
+  getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]>;
+
+  /**
+   * Change fields of an existing card outside of an answer, saved after any
+   * answer committed before it
+   */
+  patchProgress(progressId: string, updates: ProgressPatch): Promise<void>;
+
+  /**
+   * Save an answer all at once: the card's progress (unless the card has
+   * since been answered later elsewhere), a review log entry, the topic's
+   * daily and completed counts and the user's totals. Returns the review
+   * log entry's ID, which is `reviewId` when given so the answer can be
+   * saved again without counting twice.
+   */
+  commitAnswer(commit: AnswerCommit, reviewId?: string): Promise<string>;
+
+  /**
+   * Take an answer back all at once. Does nothing if its review log entry is
+   * already gone.
+   */
+  undoAnswer(undo: AnswerUndo): Promise<void>;
+}
+
+// A trash entry with the documents it took along, as kept in memory
+export interface TrashedItems {
+  entry: TrashEntry;
+  topic?: Topic;
+  questions: Question[];
+  progress: Progress[];
+}
+
+/**
+ * A store kept in plain maps, for simulations and tests. Queries filter like
+ * their Firestore counterparts, including leaving suspended cards out of the
+ * due and new-card queues, but are never capped.
+ */
+export class MemorySchedulingStore implements SchedulingStore {
+  readonly users = new Map<string, User>();
+  readonly topics = new Map<string, Topic>();
+  readonly presets = new Map<string, DeckPreset>();
+  readonly progress = new Map<string, Progress>();
+  readonly questions = new Map<string, Question>(); // Not used by scheduling, kept for the memory repositories
+  readonly trash = new Map<string, TrashedItems>(); // Likewise
+  readonly savedSearches = new Map<string, SavedSearch>(); // Likewise
+  readonly vacations = new Map<string, Vacation>(); // Likewise
+  readonly notificationSettings = new Map<string, NotificationSettings>(); // Likewise, keyed by user ID
+  readonly reviewLogs = new Map<string, ReviewLog>(); // In the order they were added
+  private nextReviewLogId = 1;
+
+  async getUser(userId: string): Promise<User | null> {
+    return this.users.get(userId) ?? null;
+  }
+
+  async getTopic(topicId: string): Promise<Topic | null> {
+    return this.topics.get(topicId) ?? null;
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    return [...this.topics.values()].filter(topic => topic.userId === userId);
+  }
+
+  async getPreset(presetId: string): Promise<DeckPreset | null> {
+    return this.presets.get(presetId) ?? null;
+  }
+
+  async getUserPresets(userId: string): Promise<DeckPreset[]> {
+    return [...this.presets.values()].filter(preset => preset.userId === userId);
+  }
+
+  async getProgress(progressId: string): Promise<Progress | null> {
+    const progress = this.progress.get(progressId);
+    return progress ? { ...progress } : null;
+  }
+
+  async getDueQuestions(userId: string, until: Date): Promise<Progress[]> {
+    return this.userProgress(userId).filter(p =>
+      p.nextReviewAt <= until && !p.suspended && p.learningState !== 'new'
+    );
+  }
+
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    if (count <= 0) return [];
+    return this.userProgress(userId)
+      .filter(p => p.topicId === topicId && p.learningState === 'new' && !p.suspended)
+      .slice(0, count);
+  }
+
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
+    return this.userProgress(userId).filter(p => p.nextReviewAt >= start && p.nextReviewAt <= end);
+  }
+
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    const progress = this.progress.get(progressId);
+    if (!progress) throw new Error(`Progress ${progressId} not found`);
+    Object.assign(progress, updates);
+  }
+
+  /**
+   * Save an answer, with its review log entry under `reviewId` when given
+   */
+  async commitAnswer(commit: AnswerCommit, reviewId?: string): Promise<string> {
+    const { userId, questionId, topicId, updates, reviewLog } = commit;
+    const progressId = `${userId}_${questionId}`;
+    const current = this.progress.get(progressId);
+
+    // A later answer from elsewhere keeps its progress
+    const superseded = !!current && current.lastAnsweredAt > reviewLog.reviewedAt;
+    if (!superseded) {
+      const progress = { ...current, ...updates, id: progressId, userId, questionId, topicId } as Progress;
+      delete progress.vacationId;
+      this.progress.set(progressId, progress);
+    }
+
+    const topic = this.topics.get(topicId);
+    if (topic) {
+      if (!superseded) {
+        topic.completedQuestions = Math.max(
+          topic.completedQuestions + Number(!!updates.isCompleted) - Number(!!current?.isCompleted),
+          0
+        );
+      }
+      if (commit.countedAs) {
+        this.addToDailyCount(topic, commit.day, commit.countedAs, 1);
+      }
+    }
+
+    this.addToUserTotals(userId, reviewLog, 1);
+
+    const id = reviewId ?? `review-${this.nextReviewLogId++}`;
+    this.reviewLogs.set(id, { ...reviewLog, id });
+    return id;
+  }
+
+  async undoAnswer(undo: AnswerUndo): Promise<void> {
+    const reviewLog = this.reviewLogs.get(undo.reviewLogId);
+    if (!reviewLog) return;
+    this.reviewLogs.delete(undo.reviewLogId);
+
+    // Leave the card alone if it has been answered again since
+    const current = this.progress.get(undo.progressId);
+    const answeredSince = !!current && current.lastAnsweredAt > reviewLog.reviewedAt;
+    const topic = this.topics.get(undo.topicId);
+
+    if (!answeredSince) {
+      if (undo.previousProgress) {
+        this.progress.set(undo.progressId, { ...undo.previousProgress });
+      } else {
+        this.progress.delete(undo.progressId);
+      }
+      if (topic) {
+        topic.completedQuestions = Math.max(
+          topic.completedQuestions + Number(!!undo.previousProgress?.isCompleted) - Number(!!current?.isCompleted),
+          0
+        );
+      }
+    }
+
+    if (topic && undo.countedAs) {
+      this.addToDailyCount(topic, undo.day, undo.countedAs, -1);
+    }
+
+    this.addToUserTotals(reviewLog.userId, reviewLog, -1);
+  }
+
+  /**
+   * Count a card studied on `day` towards a topic's daily limits
+   */
+  addToDailyCount(topic: Topic, day: string, kind: DailyCountKind, amount: number): void {
+    // Undoing an answer from an earlier day has nothing left to take back
+    if (amount < 0 && topic.dailyCounts?.day !== day) return;
+
+    const counts = topic.dailyCounts?.day === day ? { ...topic.dailyCounts } : { day, newCards: 0, reviews: 0 };
+    counts[kind] = Math.max(counts[kind] + amount, 0);
+    topic.dailyCounts = counts;
+  }
+
+  private addToUserTotals(userId: string, reviewLog: Omit<ReviewLog, 'id'>, sign: 1 | -1): void {
+    const user = this.users.get(userId);
+    if (!user) return;
+
+    user.totalReviews = (user.totalReviews || 0) + sign;
+    user.correctReviews = (user.correctReviews || 0) + (reviewLog.grade !== 'again' ? sign : 0);
+    user.studySeconds = (user.studySeconds || 0) + sign * (reviewLog.responseTime || 0);
+  }
+
+  /**
+   * A user's cards in due order
+   */
+  private userProgress(userId: string): Progress[] {
+    return [...this.progress.values()]
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.nextReviewAt.getTime() - b.nextReviewAt.getTime())
+      .map(p => ({ ...p }));
+  }
+}
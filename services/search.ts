@@ -0,0 +1,268 @@
+import { StudyCard, Topic } from '@/types';
+import { appRepositories, Repositories } from './repositories';
+import { spacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Card Search
+ * A small query language over questions and their progress, e.g.
+ *   topic:Biology difficulty:hard lapses>3 due<7d type:multiple_choice
+ *
+ * - Terms are space separated and must all match; prefix a term with - to negate it
+ * - Values containing spaces go in quotes: topic:"Cell Biology"
+ * - Text fields match case-insensitively and accept * as a wildcard
+ * - Number fields take : = < > <= >=
+ * - Durations take a unit (h, d or w, days by default); for them : means "within"
+ * - A term without a field searches the question and answer text
+ */
+
+export type SearchOperator = ':' | '=' | '<' | '>' | '<=' | '>=';
+
+export interface SearchClause {
+  field?: string; // undefined for free text
+  operator: SearchOperator;
+  value: string;
+  negated: boolean;
+}
+
+interface SearchContext {
+  topicsById: Map<string, Topic>;
+  now: Date;
+}
+
+type FieldSpec =
+  | { kind: 'text'; contains?: boolean; get: (card: StudyCard, context: SearchContext) => string | undefined }
+  | { kind: 'number'; get: (card: StudyCard, context: SearchContext) => number | undefined }
+  | { kind: 'duration'; get: (card: StudyCard, context: SearchContext) => number | undefined }; // hours
+
+const HOUR = 60 * 60 * 1000;
+
+const hoursSince = (date: Date, now: Date) => (now.getTime() - date.getTime()) / HOUR;
+
+const FIELDS: Record<string, FieldSpec> = {
+  topic: { kind: 'text', get: (card, { topicsById }) => topicsById.get(card.topicId)?.title },
+  question: { kind: 'text', contains: true, get: card => card.question.question },
+  answer: { kind: 'text', contains: true, get: card => card.question.answer },
+  difficulty: { kind: 'text', get: card => card.question.difficulty },
+  type: { kind: 'text', get: card => card.question.type },
+  state: { kind: 'text', get: card => card.learningState ?? 'review' },
+  scheduler: { kind: 'text', get: card => card.schedulerType ?? 'sm2' },
+  lapses: { kind: 'number', get: card => card.lapses || 0 },
+  reps: { kind: 'number', get: card => card.totalAttempts },
+  correct: { kind: 'number', get: card => card.correctAnswers },
+  ease: { kind: 'number', get: card => card.easeFactor },
+  mastery: { kind: 'number', get: (card, { now }) => spacedRepetitionService.getMastery(card, now).level },
+  recall: {
+    kind: 'number',
+    get: (card, { now }) => Math.round(spacedRepetitionService.getRetrievability(card, now) * 100)
+  },
+  interval: { kind: 'duration', get: card => card.reviewInterval },
+  // Hours until due; negative when overdue
+  due: {
+    kind: 'duration',
+    get: (card, { now }) => card.learningState === 'new' ? undefined : -hoursSince(card.nextReviewAt, now)
+  },
+  added: { kind: 'duration', get: (card, { now }) => hoursSince(card.question.createdAt, now) },
+  answered: {
+    kind: 'duration',
+    get: (card, { now }) => card.learningState === 'new' ? undefined : hoursSince(card.lastAnsweredAt, now)
+  },
+};
+
+const FLAGS: Record<string, (card: StudyCard, context: SearchContext) => boolean> = {
+  new: card => card.learningState === 'new',
+  learning: card => spacedRepetitionService.isLearning(card),
+  review: card => (card.learningState ?? 'review') === 'review',
+  due: (card, { now }) => card.learningState !== 'new' && card.nextReviewAt <= now,
+  suspended: card => !!card.suspended,
+  leech: card => !!card.isLeech,
+  mastered: (card, { now }) => spacedRepetitionService.isQuestionMastered(card, now),
+};
+
+const DURATION_UNITS: Record<string, number> = { h: 1, d: 24, w: 7 * 24 };
+
+// field, operator, value; the value may be quoted
+const TERM_PATTERN = /^([a-z]+)(<=|>=|:|=|<|>)(.*)$/i;
+
+/**
+ * Split a query into terms, keeping quoted values together
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of query) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (/\s/.test(char) && !quoted) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unclosed quote in search');
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Parse a duration such as 7d, 12h or 2w into hours
+ */
+function parseDuration(value: string): number {
+  const match = value.match(/^(-?\d+(?:\.\d+)?)([hdw]?)$/i);
+  if (!match) {
+    throw new Error(`"${value}" is not a duration, use e.g. 7d or 12h`);
+  }
+  return Number(match[1]) * DURATION_UNITS[(match[2] || 'd').toLowerCase()];
+}
+
+function compare(actual: number, operator: SearchOperator, expected: number): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '>': return actual > expected;
+    case '<=': return actual <= expected;
+    case '>=': return actual >= expected;
+    default: return actual === expected;
+  }
+}
+
+function wildcardToRegExp(value: string, contains: boolean): RegExp {
+  const pattern = value
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(contains ? pattern : `^${pattern}$`, 'i');
+}
+
+/**
+ * Parse a query into clauses, throwing on unknown fields or malformed values
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+  return tokenize(query).map(token => {
+    const negated = token.startsWith('-') && token.length > 1;
+    const term = negated ? token.slice(1) : token;
+    const match = term.match(TERM_PATTERN);
+
+    if (!match) {
+      return { operator: ':' as const, value: term, negated };
+    }
+
+    const field = match[1].toLowerCase();
+    const operator = match[2] as SearchOperator;
+    const value = match[3];
+
+    if (field === 'is') {
+      if (!FLAGS[value.toLowerCase()]) {
+        throw new Error(`Unknown flag "is:${value}"; try ${Object.keys(FLAGS).map(f => `is:${f}`).join(', ')}`);
+      }
+    } else {
+      const spec = FIELDS[field];
+      if (!spec) {
+        throw new Error(`Unknown search field "${field}"`);
+      }
+      if (!value) {
+        throw new Error(`Missing value for "${field}"`);
+      }
+      if (spec.kind === 'text' && operator !== ':' && operator !== '=') {
+        throw new Error(`"${field}" can only be matched with : or =`);
+      }
+      if (spec.kind === 'number' && Number.isNaN(Number(value))) {
+        throw new Error(`"${field}" needs a number, got "${value}"`);
+      }
+      if (spec.kind === 'duration') {
+        parseDuration(value);
+      }
+    }
+
+    return { field, operator, value, negated };
+  });
+}
+
+/**
+ * Whether a card satisfies a single clause
+ */
+function matchesClause(card: StudyCard, clause: SearchClause, context: SearchContext): boolean {
+  if (!clause.field) {
+    const text = wildcardToRegExp(clause.value, true);
+    return text.test(card.question.question) || text.test(card.question.answer);
+  }
+
+  if (clause.field === 'is') {
+    return FLAGS[clause.value.toLowerCase()](card, context);
+  }
+
+  const spec = FIELDS[clause.field];
+  if (spec.kind === 'text') {
+    const actual = spec.get(card, context);
+    return actual !== undefined && wildcardToRegExp(clause.value, !!spec.contains).test(actual);
+  }
+
+  const actual = spec.get(card, context);
+  if (actual === undefined) return false;
+
+  if (spec.kind === 'number') {
+    return compare(actual, clause.operator, Number(clause.value));
+  }
+
+  const expected = parseDuration(clause.value);
+  return compare(actual, clause.operator === ':' ? '<=' : clause.operator, expected);
+}
+
+export class SearchService {
+  constructor(private repositories: Repositories = appRepositories) {}
+
+  /**
+   * Cards in the given topics (all of the user's topics by default)
+   */
+  async loadCards(userId: string, topicIds?: string[]): Promise<{ cards: StudyCard[]; topics: Topic[] }> {
+    const topics = await this.repositories.topics.getUserTopics(userId);
+    const selected = topicIds?.length ? topics.filter(topic => topicIds.includes(topic.id)) : topics;
+
+    const cards = await Promise.all(selected.map(async topic => {
+      const [progress, questions] = await Promise.all([
+        this.repositories.progress.getTopicProgress(userId, topic.id),
+        this.repositories.questions.getTopicQuestions(topic.id)
+      ]);
+      const questionsById = new Map(questions.map(question => [question.id, question]));
+
+      return progress
+        .filter(p => questionsById.has(p.questionId))
+        .map(p => ({ ...p, question: questionsById.get(p.questionId)! }));
+    }));
+
+    return { cards: cards.flat(), topics };
+  }
+
+  /**
+   * Keep the cards matching a query
+   */
+  filterCards(cards: StudyCard[], query: string, topics: Topic[], now: Date = new Date()): StudyCard[] {
+    const clauses = parseSearchQuery(query);
+    const context: SearchContext = {
+      topicsById: new Map(topics.map(topic => [topic.id, topic])),
+      now
+    };
+
+    return cards.filter(card =>
+      clauses.every(clause => matchesClause(card, clause, context) !== clause.negated)
+    );
+  }
+
+  /**
+   * Search all of a user's cards
+   */
+  async search(userId: string, query: string, now: Date = new Date()): Promise<StudyCard[]> {
+    // Parse first so syntax errors surface before any loading
+    parseSearchQuery(query);
+
+    const { cards, topics } = await this.loadCards(userId);
+    return this.filterCards(cards, query, topics, now);
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
@@ -0,0 +1,318 @@
+import { DEFAULT_DECK_OPTIONS } from '@/constants/DeckPresets';
+import { DeckOptions, Progress, ReviewGrade, SchedulerType } from '@/types';
+import { addStudyDays, getTimeOnStudyDay } from './dayBoundary';
+import { createSeededRandom, forgettingCurve, ManualClock } from './schedulers';
+import { MemorySchedulingStore } from './schedulingStore';
+import { SpacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Scheduler Simulator
+ * Replays synthetic learners studying a deck once a day for months, running
+ * the real scheduling service against an in-memory store and a manual clock.
+ * Each learner has a hidden memory model of their own (power-law forgetting,
+ * with stability growing more after harder-won recalls), so any scheduler and
+ * deck options can be compared on retention versus workload. Runs with the
+ * same config and seed give the same report.
+ */
+
+export interface SimulationConfig {
+  schedulerType?: SchedulerType;
+  deckOptions?: Partial<DeckOptions>;
+  fsrsWeights?: number[];
+  days?: number;
+  cardCount?: number; // Cards in each learner's deck
+  learners?: number;
+  seed?: number;
+}
+
+export interface SimulatedDay {
+  reviews: number; // Answers to cards in review, averaged over learners
+  newCards: number; // Cards introduced
+  learningSteps: number; // Answers to cards in (re)learning steps
+  recalled: number; // Reviews the learner actually remembered
+}
+
+export interface SimulationReport {
+  config: SimulationConfig;
+  days: SimulatedDay[];
+  reviewRetention: number; // Share of reviews recalled (0-1)
+  answersPerDay: number; // All answers, including learning steps
+  reviewsPerDay: number;
+  cardsIntroduced: number;
+  averageRecallAtEnd: number; // True recall over introduced cards on the last day (0-1)
+  knownAtEnd: number; // Introduced cards the learner would recall with 90% probability
+  answersPerKnownCard: number; // Workload for each card known at the end
+}
+
+// Hidden memory of one card for one learner
+interface MemoryTrace {
+  stability: number; // days until true recall drops to 90%
+  lastSeenAt: Date;
+}
+
+const DEFAULT_SIMULATION: Required<Omit<SimulationConfig, 'fsrsWeights' | 'deckOptions'>> = {
+  schedulerType: 'sm2',
+  days: 180,
+  cardCount: 300,
+  learners: 5,
+  seed: 1,
+};
+
+// Fixed so results don't depend on when the simulation is run
+const SIMULATION_START = new Date('2025-01-06T12:00:00Z');
+const SESSION_TIME = '09:00';
+const SECONDS_PER_ANSWER = 15;
+const MAX_ANSWERS_PER_DAY = 2000;
+
+// Learner memory model
+const FIRST_SIGHT_STABILITY = 0.4; // days, for a card of average difficulty
+const RECALL_GROWTH = 8; // Stability multiplier scale after a successful recall
+const LAPSE_RETAINED = 0.25; // Share of stability kept after forgetting
+const KNOWN_RECALL = 0.9;
+
+const USER_ID = 'simulated-learner';
+const TOPIC_ID = 'simulated-topic';
+const PRESET_ID = 'simulated-preset';
+
+export class SimulatorService {
+  /**
+   * Simulate learners studying a deck every day with the given config
+   */
+  async run(config: SimulationConfig = {}): Promise<SimulationReport> {
+    const settings = { ...DEFAULT_SIMULATION, ...config };
+    const days: SimulatedDay[] = Array.from({ length: settings.days }, () => ({
+      reviews: 0,
+      newCards: 0,
+      learningSteps: 0,
+      recalled: 0
+    }));
+    let cardsIntroduced = 0;
+    let recallAtEnd = 0;
+    let knownAtEnd = 0;
+
+    for (let learner = 0; learner < settings.learners; learner++) {
+      const result = await this.simulateLearner(settings, config, settings.seed * 1000 + learner, days);
+      cardsIntroduced += result.introduced;
+      recallAtEnd += result.recallAtEnd;
+      knownAtEnd += result.known;
+    }
+
+    const perLearner = (value: number) => value / settings.learners;
+    days.forEach(day => {
+      day.reviews = perLearner(day.reviews);
+      day.newCards = perLearner(day.newCards);
+      day.learningSteps = perLearner(day.learningSteps);
+      day.recalled = perLearner(day.recalled);
+    });
+
+    const sum = (pick: (day: SimulatedDay) => number) => days.reduce((total, day) => total + pick(day), 0);
+    const totalReviews = sum(day => day.reviews);
+    const totalAnswers = sum(day => day.reviews + day.newCards + day.learningSteps);
+
+    return {
+      config,
+      days,
+      reviewRetention: totalReviews > 0 ? sum(day => day.recalled) / totalReviews : 0,
+      answersPerDay: totalAnswers / settings.days,
+      reviewsPerDay: totalReviews / settings.days,
+      cardsIntroduced: perLearner(cardsIntroduced),
+      averageRecallAtEnd: cardsIntroduced > 0 ? recallAtEnd / cardsIntroduced : 0,
+      knownAtEnd: perLearner(knownAtEnd),
+      answersPerKnownCard: knownAtEnd > 0 ? totalAnswers / perLearner(knownAtEnd) : 0
+    };
+  }
+
+  /**
+   * Run several configs with the same learners and seed
+   */
+  async compare(configs: SimulationConfig[]): Promise<SimulationReport[]> {
+    const reports: SimulationReport[] = [];
+    for (const config of configs) {
+      reports.push(await this.run(config));
+    }
+    return reports;
+  }
+
+  private async simulateLearner(
+    settings: Required<Omit<SimulationConfig, 'fsrsWeights' | 'deckOptions'>>,
+    config: SimulationConfig,
+    seed: number,
+    days: SimulatedDay[]
+  ): Promise<{ introduced: number; recallAtEnd: number; known: number }> {
+    const random = createSeededRandom(seed);
+    const store = this.createStore(settings, config);
+    const clock = new ManualClock(SIMULATION_START);
+    const service = new SpacedRepetitionService(undefined, store, clock, random);
+    const traces = new Map<string, MemoryTrace>();
+
+    // Cards differ in difficulty, and so do learners
+    const ability = 0.7 + random() * 0.6;
+    const difficulty = new Map(
+      [...store.progress.values()].map(p => [p.questionId, (0.6 + random()) / ability])
+    );
+
+    for (let index = 0; index < settings.days; index++) {
+      const studyDay = addStudyDays(SIMULATION_START, index);
+      const dayEnd = addStudyDays(SIMULATION_START, index + 1);
+      clock.set(getTimeOnStudyDay(studyDay, SESSION_TIME));
+
+      let answers = 0;
+      while (answers < MAX_ANSWERS_PER_DAY) {
+        const queue = await service.getQuestionsForReview(USER_ID, 'spaced', MAX_ANSWERS_PER_DAY);
+
+        if (queue.length === 0) {
+          // Wait for the next learning step due today, if any
+          const nextStep = this.getNextLearningStep(store, dayEnd);
+          if (!nextStep || nextStep <= clock.now()) break;
+          clock.set(nextStep);
+          continue;
+        }
+
+        for (const card of queue) {
+          await this.answer(service, card, traces, difficulty.get(card.questionId)!, clock.now(), random, days[index]);
+          clock.advance(SECONDS_PER_ANSWER / 60);
+          answers++;
+        }
+      }
+    }
+
+    const end = addStudyDays(SIMULATION_START, settings.days);
+    const recalls = [...traces.values()].map(trace => this.getRecall(trace, end));
+    return {
+      introduced: traces.size,
+      recallAtEnd: recalls.reduce((total, recall) => total + recall, 0),
+      known: recalls.filter(recall => recall >= KNOWN_RECALL).length
+    };
+  }
+
+  /**
+   * The learner answers a card from memory, then the scheduler processes it
+   */
+  private async answer(
+    service: SpacedRepetitionService,
+    card: Progress,
+    traces: Map<string, MemoryTrace>,
+    difficulty: number,
+    now: Date,
+    random: () => number,
+    day: SimulatedDay
+  ): Promise<void> {
+    const trace = traces.get(card.questionId);
+    const recall = trace ? this.getRecall(trace, now) : 0;
+    const recalled = random() < recall;
+
+    const state = card.learningState ?? 'review';
+    if (state === 'new') day.newCards++;
+    else if (state === 'review') day.reviews++;
+    else day.learningSteps++;
+    if (state === 'review' && recalled) day.recalled++;
+
+    await service.processAnswer(USER_ID, card.questionId, card.topicId, this.getGrade(recalled, recall, random));
+
+    traces.set(card.questionId, {
+      stability: !trace
+        ? FIRST_SIGHT_STABILITY / difficulty
+        : recalled
+          ? trace.stability * (1 + (RECALL_GROWTH / difficulty) * (1.05 - recall))
+          : Math.max(trace.stability * LAPSE_RETAINED, FIRST_SIGHT_STABILITY / difficulty),
+      lastSeenAt: now
+    });
+  }
+
+  /**
+   * How a learner grades an answer: easy when it came effortlessly, hard when
+   * it was a struggle
+   */
+  private getGrade(recalled: boolean, recall: number, random: () => number): ReviewGrade {
+    if (!recalled) return 'again';
+    if (recall > 0.95 && random() < 0.3) return 'easy';
+    if (recall < 0.75 && random() < 0.5) return 'hard';
+    return 'good';
+  }
+
+  private getRecall(trace: MemoryTrace, at: Date): number {
+    const elapsedDays = Math.max(at.getTime() - trace.lastSeenAt.getTime(), 0) / (24 * 60 * 60 * 1000);
+    return forgettingCurve(elapsedDays, trace.stability);
+  }
+
+  private getNextLearningStep(store: MemorySchedulingStore, before: Date): Date | null {
+    const steps = [...store.progress.values()]
+      .filter(p =>
+        (p.learningState === 'learning' || p.learningState === 'relearning') &&
+        !p.suspended &&
+        p.nextReviewAt < before
+      )
+      .map(p => p.nextReviewAt.getTime());
+    return steps.length > 0 ? new Date(Math.min(...steps)) : null;
+  }
+
+  /**
+   * A deck of new cards for one learner. Leeches can't be rewritten by AI
+   * here, so 'rewrite' is simulated as 'tag'.
+   */
+  private createStore(
+    settings: Required<Omit<SimulationConfig, 'fsrsWeights' | 'deckOptions'>>,
+    config: SimulationConfig
+  ): MemorySchedulingStore {
+    const store = new MemorySchedulingStore();
+    const options: DeckOptions = { ...DEFAULT_DECK_OPTIONS, ...config.deckOptions };
+
+    store.users.set(USER_ID, {
+      id: USER_ID,
+      email: '',
+      createdAt: SIMULATION_START,
+      lastLoginAt: SIMULATION_START,
+      schedulerType: settings.schedulerType,
+      fsrsWeights: config.fsrsWeights
+    });
+    store.presets.set(PRESET_ID, {
+      ...options,
+      leechAction: options.leechAction === 'rewrite' ? 'tag' : options.leechAction,
+      id: PRESET_ID,
+      userId: USER_ID,
+      name: 'Simulation',
+      createdAt: SIMULATION_START,
+      updatedAt: SIMULATION_START
+    });
+    store.topics.set(TOPIC_ID, {
+      id: TOPIC_ID,
+      userId: USER_ID,
+      title: 'Simulation',
+      description: '',
+      color: '#007AFF',
+      createdAt: SIMULATION_START,
+      updatedAt: SIMULATION_START,
+      questionCount: settings.cardCount,
+      completedQuestions: 0,
+      presetId: PRESET_ID
+    });
+
+    for (let index = 0; index < settings.cardCount; index++) {
+      const questionId = `card-${index}`;
+      // Cards are introduced in the order they were added
+      const addedAt = new Date(SIMULATION_START.getTime() - (settings.cardCount - index) * 1000);
+      store.progress.set(`${USER_ID}_${questionId}`, {
+        id: `${USER_ID}_${questionId}`,
+        userId: USER_ID,
+        questionId,
+        topicId: TOPIC_ID,
+        correctAnswers: 0,
+        totalAttempts: 0,
+        consecutiveCorrect: 0,
+        lastAnsweredAt: addedAt,
+        nextReviewAt: addedAt,
+        reviewInterval: 0,
+        masteryLevel: 0,
+        isCompleted: false,
+        learningState: 'new',
+        learningStep: 0,
+        lapses: 0
+      });
+    }
+
+    return store;
+  }
+}
+
+// Export singleton instance
+export const simulatorService = new SimulatorService();
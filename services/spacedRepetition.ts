@@ -1,6 +1,23 @@
-import { Progress, Question, ReviewSession } from '@/types';
-import { progressService } from './firestore';
-import { Timestamp } from 'firebase/firestore';
+import { DEFAULT_DECK_OPTIONS } from '@/constants/DeckPresets';
+import { AnswerUndo, DeckOptions, Progress, ReviewGrade, ReviewOrder, SchedulerType } from '@/types';
+import { addStudyDays, getDayKey, getDayStart } from './dayBoundary';
+import { leechService } from './leeches';
+import { reviewOrderService } from './reviewOrder';
+import {
+  addHours,
+  Clock,
+  DEFAULT_FSRS_CONFIG,
+  forgettingCurve,
+  FsrsScheduler,
+  fuzzInterval,
+  getFuzzRange,
+  LearningStepsScheduler,
+  Scheduler,
+  Sm2Scheduler,
+  systemClock
+} from './schedulers';
+import { appRepositories } from './repositories';
+import { SchedulingStore } from './schedulingStore';
 
 /**
  * Spaced Repetition Algorithm Implementation
@@ -9,140 +26,314 @@ import { Timestamp } from 'firebase/firestore';
 
 export interface SpacedRepetitionConfig {
   initialInterval: number; // hours
-  maxInterval: number; // hours (1 week = 168 hours)
+  maxInterval: number; // hours
   minInterval: number; // hours
-  easyBonus: number; // multiplier for easy answers
+  initialEase: number; // starting ease factor for new cards
+  minEase: number; // lowest ease factor a card can reach
+  easyBonus: number; // extra multiplier on top of the ease factor for easy answers
   hardPenalty: number; // divisor for hard answers
+  intervalModifier: number; // scales correct-answer intervals to reach the desired retention
 }
 
-const DEFAULT_CONFIG: SpacedRepetitionConfig = {
-  initialInterval: 5, // 5 hours for first review
-  maxInterval: 168, // 1 week maximum
+/**
+ * Predicted recall for a card or topic, as probabilities (0-1)
+ */
+export interface Mastery {
+  recallNow: number;
+  recallAtHorizon: number; // MASTERY_HORIZON_DAYS from now, without further reviews
+  level: number; // recallAtHorizon as a percentage (0-100)
+}
+
+export interface TopicMastery extends Mastery {
+  cardCount: number;
+  masteredCount: number;
+}
+
+export interface AnswerResult {
+  progress: Progress;
+  undo: AnswerUndo;
+}
+
+export const DEFAULT_CONFIG: SpacedRepetitionConfig = {
+  initialInterval: DEFAULT_DECK_OPTIONS.initialInterval,
+  maxInterval: DEFAULT_DECK_OPTIONS.maxInterval,
   minInterval: 1, // 1 hour minimum
-  easyBonus: 2.5,
+  initialEase: 2.5,
+  minEase: 1.3,
+  easyBonus: 1.3,
   hardPenalty: 2,
+  intervalModifier: 1,
 };
 
+// Recall rate SM-2's intervals are tuned for; other targets scale intervals from it
+const SM2_BASE_RETENTION = 0.9;
+
+// How far ahead mastery predicts recall
+export const MASTERY_HORIZON_DAYS = 7;
+
+// Predicted recall at the horizon from which a card counts as mastered
+const MASTERED_RECALL = 0.9;
+
+// Intervals from which fuzz picks the least-loaded day instead of a random time
+const LOAD_BALANCE_MIN_INTERVAL = 48; // hours
+
+// How far ahead a learning card may be shown early when nothing else is left
+const LEARN_AHEAD_LIMIT = 20; // minutes
+
 export class SpacedRepetitionService {
   private config: SpacedRepetitionConfig;
+  private store: SchedulingStore;
+  private clock: Clock;
+  private random: () => number;
 
-  constructor(config: SpacedRepetitionConfig = DEFAULT_CONFIG) {
+  /**
+   * Storage, clock and randomness are injectable so scheduling can run
+   * deterministically outside the app, e.g. in the simulator
+   */
+  constructor(
+    config: SpacedRepetitionConfig = DEFAULT_CONFIG,
+    store: SchedulingStore = appRepositories.scheduling,
+    clock: Clock = systemClock,
+    random: () => number = Math.random
+  ) {
     this.config = config;
+    this.store = store;
+    this.clock = clock;
+    this.random = random;
   }
 
   /**
-   * Calculate the next review interval based on performance
+   * Apply a topic's deck options on top of the base config
    */
-  calculateNextInterval(
-    currentInterval: number,
-    performance: 'easy' | 'good' | 'hard' | 'again',
-    consecutiveCorrect: number = 0
-  ): number {
-    let newInterval = currentInterval;
+  getConfig(options?: DeckOptions | null): SpacedRepetitionConfig {
+    if (!options) return this.config;
 
-    switch (performance) {
-      case 'again':
-        // Reset to minimum interval for failed recall
-        newInterval = this.config.minInterval;
-        break;
-      
-      case 'hard':
-        // Reduce interval but don't go below minimum
-        newInterval = Math.max(
-          currentInterval / this.config.hardPenalty,
-          this.config.minInterval
-        );
-        break;
-      
-      case 'good':
-        // Standard progression
-        if (consecutiveCorrect === 0) {
-          newInterval = this.config.initialInterval;
-        } else if (consecutiveCorrect === 1) {
-          newInterval = this.config.initialInterval * 2; // 10 hours
-        } else {
-          newInterval = currentInterval * 2; // Double the interval
-        }
-        break;
-      
-      case 'easy':
-        // Accelerated progression
-        if (consecutiveCorrect === 0) {
-          newInterval = this.config.initialInterval * 2;
-        } else {
-          newInterval = currentInterval * this.config.easyBonus;
-        }
-        break;
-    }
+    return {
+      ...this.config,
+      initialInterval: options.initialInterval,
+      maxInterval: options.maxInterval,
+      intervalModifier: this.getIntervalModifier(options.desiredRetention)
+    };
+  }
 
-    // Ensure interval stays within bounds
-    return Math.min(Math.max(newInterval, this.config.minInterval), this.config.maxInterval);
+  /**
+   * Interval multiplier for a target recall rate. Assuming exponential
+   * forgetting, retention after t is R^(t/t0), so reaching `desired` instead
+   * of the base rate takes ln(desired) / ln(base) times as long.
+   */
+  getIntervalModifier(desiredRetention: number): number {
+    const retention = Math.min(Math.max(desiredRetention, 0.7), 0.99);
+    return Math.log(retention) / Math.log(SM2_BASE_RETENTION);
   }
 
   /**
-   * Calculate mastery level based on performance history
+   * Create a scheduler of the given type for a topic's deck options
    */
-  calculateMasteryLevel(
-    correctAnswers: number,
-    totalAttempts: number,
-    consecutiveCorrect: number,
-    currentInterval: number
+  createScheduler(
+    type: SchedulerType = 'sm2',
+    options?: DeckOptions | null,
+    fsrsWeights?: number[]
+  ): Scheduler {
+    const config = this.getConfig(options);
+    const scheduler = type === 'fsrs'
+      ? new FsrsScheduler({
+          weights: fsrsWeights ?? DEFAULT_FSRS_CONFIG.weights,
+          requestRetention: options?.desiredRetention ?? DEFAULT_FSRS_CONFIG.requestRetention,
+          maximumInterval: config.maxInterval
+        })
+      : new Sm2Scheduler(config);
+
+    return new LearningStepsScheduler(
+      scheduler,
+      options?.learningSteps ?? DEFAULT_DECK_OPTIONS.learningSteps,
+      options?.relearningSteps ?? DEFAULT_DECK_OPTIONS.relearningSteps
+    );
+  }
+
+  /**
+   * Resolve the settings that apply to a topic: its preset's deck options
+   * and the active scheduler, where the topic's choice wins over the user's default.
+   * Desired retention comes from the topic, then its preset, then the user.
+   */
+  async resolveTopicSettings(
+    userId: string,
+    topicId: string,
+    overrides: Partial<DeckOptions> = {}
+  ): Promise<{ scheduler: Scheduler; options: DeckOptions }> {
+    const [topic, user] = await Promise.all([
+      this.store.getTopic(topicId),
+      this.store.getUser(userId)
+    ]);
+    const preset = topic?.presetId ? await this.store.getPreset(topic.presetId) : null;
+    const options = {
+      ...this.mergeDeckOptions(preset),
+      desiredRetention: topic?.desiredRetention ??
+        preset?.desiredRetention ??
+        user?.desiredRetention ??
+        DEFAULT_DECK_OPTIONS.desiredRetention,
+      ...overrides
+    };
+    const type = topic?.schedulerType ?? user?.schedulerType ?? 'sm2';
+
+    return {
+      scheduler: this.createScheduler(type, options, user?.fsrsWeights),
+      options
+    };
+  }
+
+  /**
+   * Fill in defaults for options missing from a preset
+   */
+  private mergeDeckOptions(preset?: Partial<DeckOptions> | null): DeckOptions {
+    return { ...DEFAULT_DECK_OPTIONS, ...preset };
+  }
+
+  /**
+   * Resolve the active scheduler for a topic
+   */
+  async resolveScheduler(
+    userId: string,
+    topicId: string,
+    overrides?: Partial<DeckOptions>
+  ): Promise<Scheduler> {
+    const { scheduler } = await this.resolveTopicSettings(userId, topicId, overrides);
+    return scheduler;
+  }
+
+  /**
+   * Memory stability in days: how long until recall drops to 90%. FSRS tracks
+   * it directly. SM-2 intervals come due at about 90% recall before the
+   * interval modifier for the deck's desired retention stretches or shrinks
+   * them, so the current interval without it stands in. Null for cards never
+   * answered.
+   */
+  getStability(
+    progress: Pick<Progress, 'learningState' | 'schedulerType' | 'stability' | 'reviewInterval'>,
+    desiredRetention: number = DEFAULT_DECK_OPTIONS.desiredRetention
+  ): number | null {
+    if (progress.learningState === 'new') return null;
+
+    if (progress.schedulerType === 'fsrs' && progress.stability) {
+      return progress.stability;
+    }
+    return Math.max(progress.reviewInterval, 1) / 24 / this.getIntervalModifier(desiredRetention);
+  }
+
+  /**
+   * Predicted probability of recalling a card at a moment
+   */
+  getRetrievability(
+    progress: Pick<Progress, 'learningState' | 'schedulerType' | 'stability' | 'reviewInterval' | 'lastAnsweredAt'>,
+    at: Date = this.clock.now(),
+    desiredRetention?: number
   ): number {
-    if (totalAttempts === 0) return 0;
+    const stability = this.getStability(progress, desiredRetention);
+    if (stability === null) return 0;
 
-    const accuracy = correctAnswers / totalAttempts;
-    const consistencyBonus = Math.min(consecutiveCorrect * 10, 30); // Max 30% bonus
-    const intervalBonus = Math.min((currentInterval / this.config.maxInterval) * 20, 20); // Max 20% bonus
+    const elapsedDays = Math.max(0, (at.getTime() - progress.lastAnsweredAt.getTime()) / 86400000);
+    return forgettingCurve(elapsedDays, stability);
+  }
+
+  /**
+   * Predicted recall now and at the mastery horizon
+   */
+  getMastery(
+    progress: Pick<Progress, 'learningState' | 'schedulerType' | 'stability' | 'reviewInterval' | 'lastAnsweredAt'>,
+    now: Date = this.clock.now(),
+    desiredRetention?: number
+  ): Mastery {
+    const horizon = new Date(now.getTime() + MASTERY_HORIZON_DAYS * 86400000);
+    const recallAtHorizon = this.getRetrievability(progress, horizon, desiredRetention);
 
-    const masteryLevel = (accuracy * 50) + consistencyBonus + intervalBonus;
-    return Math.min(Math.round(masteryLevel), 100);
+    return {
+      recallNow: this.getRetrievability(progress, now, desiredRetention),
+      recallAtHorizon,
+      level: Math.round(recallAtHorizon * 100)
+    };
   }
 
   /**
-   * Determine if a question is mastered
+   * A card is mastered once it has graduated and would still very likely be
+   * recalled at the mastery horizon. Mastery is a statistic; mastered cards
+   * keep coming up for review.
    */
-  isQuestionMastered(progress: Progress): boolean {
+  isQuestionMastered(
+    progress: Pick<Progress, 'learningState' | 'schedulerType' | 'stability' | 'reviewInterval' | 'lastAnsweredAt'>,
+    now: Date = this.clock.now(),
+    desiredRetention?: number
+  ): boolean {
     return (
-      progress.masteryLevel >= 80 &&
-      progress.correctAnswers >= 3 &&
-      progress.reviewInterval >= 24 // At least 24 hours interval
+      progress.learningState !== 'new' &&
+      !this.isLearning(progress) &&
+      this.getMastery(progress, now, desiredRetention).recallAtHorizon >= MASTERED_RECALL
     );
   }
 
   /**
-   * Get questions due for review
+   * Topic mastery: the average predicted recall across all of a topic's cards,
+   * with cards not yet studied counting as not recalled
+   */
+  getTopicMastery(progress: Progress[], now: Date = this.clock.now()): TopicMastery {
+    const cardCount = progress.length;
+    if (cardCount === 0) {
+      return { recallNow: 0, recallAtHorizon: 0, level: 0, cardCount: 0, masteredCount: 0 };
+    }
+
+    const masteries = progress.map(p => this.getMastery(p, now));
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / cardCount;
+    const recallAtHorizon = average(masteries.map(m => m.recallAtHorizon));
+
+    return {
+      recallNow: average(masteries.map(m => m.recallNow)),
+      recallAtHorizon,
+      level: Math.round(recallAtHorizon * 100),
+      cardCount,
+      masteredCount: progress.filter(p => this.isQuestionMastered(p, now)).length
+    };
+  }
+
+  /**
+   * Get questions due for review, mixed across topics with the user's review
+   * order unless one is given
    */
   async getQuestionsForReview(
     userId: string,
     sessionType: 'immediate' | 'spaced' | 'manual' = 'spaced',
-    limit: number = 20
+    limit: number = 20,
+    order?: ReviewOrder
   ): Promise<Progress[]> {
-    const dueQuestions = await progressService.getDueQuestions(userId);
+    // Reviews due any time today are shown from the start of the study day;
+    // learning steps only once they are actually due
+    const now = this.clock.now();
+    const dueQuestions = (await this.store.getDueQuestions(userId, addStudyDays(now, 1)))
+      .filter(q => !this.isLearning(q) || q.nextReviewAt <= now);
     
     // Filter based on session type
     let filteredQuestions = dueQuestions;
     
     if (sessionType === 'immediate') {
       // Only questions answered in the last hour
-      const oneHourAgo = new Date();
-      oneHourAgo.setHours(oneHourAgo.getHours() - 1);
+      const oneHourAgo = addHours(now, -1);
       
       filteredQuestions = dueQuestions.filter(
         q => q.lastAnsweredAt >= oneHourAgo
       );
     } else if (sessionType === 'spaced') {
-      // Only questions that haven't been reviewed recently
-      const twoHoursAgo = new Date();
-      twoHoursAgo.setHours(twoHoursAgo.getHours() - 2);
+      // Only questions that haven't been reviewed recently,
+      // except learning cards whose next step is due
+      const twoHoursAgo = addHours(now, -2);
       
       filteredQuestions = dueQuestions.filter(
-        q => q.lastAnsweredAt <= twoHoursAgo
+        q => this.isLearning(q) || q.lastAnsweredAt <= twoHoursAgo
       );
     }
 
-    // Sort by priority (overdue questions first, then by mastery level)
+    // Sort by priority (learning steps first, then overdue questions, then by predicted recall)
     filteredQuestions.sort((a, b) => {
-      const now = new Date();
+      if (this.isLearning(a) !== this.isLearning(b)) {
+        return this.isLearning(a) ? -1 : 1;
+      }
+
       const aOverdue = now.getTime() - a.nextReviewAt.getTime();
       const bOverdue = now.getTime() - b.nextReviewAt.getTime();
       
@@ -150,11 +341,104 @@ export class SpacedRepetitionService {
       if (aOverdue > 0 && bOverdue <= 0) return -1;
       if (bOverdue > 0 && aOverdue <= 0) return 1;
       
-      // Then by mastery level (lower mastery = higher priority)
-      return a.masteryLevel - b.masteryLevel;
+      // Then by predicted recall (most likely forgotten first)
+      return this.getRetrievability(a, now) - this.getRetrievability(b, now);
+    });
+
+    // Apply each topic's daily limits to what is left of its allowance today
+    const [topics, presets, user] = await Promise.all([
+      this.store.getUserTopics(userId),
+      this.store.getUserPresets(userId),
+      this.store.getUser(userId)
+    ]);
+    const today = getDayKey(now);
+    const remaining = new Map<string, { newCards: number; reviews: number }>();
+
+    topics.forEach(topic => {
+      const options = this.mergeDeckOptions(presets.find(preset => preset.id === topic.presetId));
+      const counts = topic.dailyCounts?.day === today ? topic.dailyCounts : { newCards: 0, reviews: 0 };
+      remaining.set(topic.id, {
+        newCards: Math.max(options.newCardsPerDay - counts.newCards, 0),
+        reviews: Math.max(options.reviewsPerDay - counts.reviews, 0)
+      });
+    });
+
+    const reviews = filteredQuestions.filter(q => {
+      const allowance = remaining.get(q.topicId);
+      // Learning steps don't count against the review limit
+      if (!allowance || this.isLearning(q)) return true;
+      if (allowance.reviews <= 0) return false;
+
+      allowance.reviews--;
+      return true;
     });
 
-    return filteredQuestions.slice(0, limit);
+    // Introduce new cards, oldest first, up to each topic's new-card limit.
+    // They are paused while an overdue backlog is being worked through.
+    const recovering = !!user?.backlogRecovery && now < user.backlogRecovery.endsAt;
+    const newCards = sessionType === 'immediate' || recovering
+      ? []
+      : (await Promise.all(
+          topics.map(topic =>
+            this.store.getNewCards(userId, topic.id, remaining.get(topic.id)!.newCards)
+          )
+        )).flat();
+
+    // Learning steps stay up front; everything else follows the review order
+    const strategy = order ?? user?.reviewOrder ?? 'due';
+    const learning = reviews.filter(q => this.isLearning(q));
+    const ordered = this.interleave(
+      reviewOrderService.order(reviews.filter(q => !this.isLearning(q)), strategy, topics, this.random),
+      reviewOrderService.order(newCards, strategy, topics, this.random)
+    );
+
+    return [...learning, ...ordered].slice(0, limit);
+  }
+
+  /**
+   * Spread new cards evenly between reviews
+   */
+  private interleave(reviews: Progress[], newCards: Progress[]): Progress[] {
+    if (newCards.length === 0) return reviews;
+
+    const every = Math.max(Math.floor(reviews.length / newCards.length), 1);
+    const result: Progress[] = [];
+    let newIndex = 0;
+
+    reviews.forEach((review, index) => {
+      result.push(review);
+      if ((index + 1) % every === 0 && newIndex < newCards.length) {
+        result.push(newCards[newIndex++]);
+      }
+    });
+
+    return result.concat(newCards.slice(newIndex));
+  }
+
+  /**
+   * Whether a card is stepping through learning or relearning steps
+   */
+  isLearning(progress: Pick<Progress, 'learningState'>): boolean {
+    return progress.learningState === 'learning' || progress.learningState === 'relearning';
+  }
+
+  /**
+   * Pick the learning card to show next in a session: the first one whose step is due,
+   * or, when the session has nothing else left, one due within the learn-ahead limit
+   */
+  getNextLearningCard<T extends Progress>(
+    learningQueue: T[],
+    hasMoreCards: boolean,
+    now: Date = this.clock.now()
+  ): T | null {
+    const sorted = [...learningQueue].sort(
+      (a, b) => a.nextReviewAt.getTime() - b.nextReviewAt.getTime()
+    );
+    const next = sorted[0];
+    if (!next) return null;
+
+    const cutoff = hasMoreCards ? now.getTime() : now.getTime() + LEARN_AHEAD_LIMIT * 60 * 1000;
+    return next.nextReviewAt.getTime() <= cutoff ? next : null;
   }
 
   /**
@@ -164,74 +448,198 @@ export class SpacedRepetitionService {
     userId: string,
     questionId: string,
     topicId: string,
-    performance: 'easy' | 'good' | 'hard' | 'again',
-    responseTime?: number // in seconds
-  ): Promise<void> {
+    performance: ReviewGrade,
+    responseTime?: number, // in seconds
+    sessionId?: string
+  ): Promise<AnswerResult> {
     const progressId = `${userId}_${questionId}`;
     
     // Get current progress or create new
-    const currentProgress = await progressService.getProgress(progressId);
+    const currentProgress = await this.store.getProgress(progressId);
     
     const isCorrect = performance !== 'again';
     const newCorrectAnswers = isCorrect 
       ? (currentProgress?.correctAnswers || 0) + 1 
       : (currentProgress?.correctAnswers || 0);
     const newTotalAttempts = (currentProgress?.totalAttempts || 0) + 1;
-    
-    // Calculate consecutive correct answers
-    let consecutiveCorrect = 0;
-    if (isCorrect) {
-      consecutiveCorrect = (currentProgress?.consecutiveCorrect || 0) + 1;
-    }
 
-    // Calculate next interval
-    const currentInterval = currentProgress?.reviewInterval || this.config.initialInterval;
-    const nextInterval = this.calculateNextInterval(
-      currentInterval,
+    // Let the active scheduler compute the next state and due date
+    const { scheduler, options } = await this.resolveTopicSettings(userId, topicId);
+    const now = this.clock.now();
+    const result = scheduler.schedule(
+      currentProgress
+        ? {
+            reviewInterval: currentProgress.reviewInterval,
+            consecutiveCorrect: currentProgress.consecutiveCorrect || 0,
+            lastAnsweredAt: currentProgress.lastAnsweredAt,
+            easeFactor: currentProgress.easeFactor,
+            stability: currentProgress.stability,
+            difficulty: currentProgress.difficulty,
+            learningState: currentProgress.learningState,
+            learningStep: currentProgress.learningStep
+          }
+        : null,
       performance,
-      consecutiveCorrect
+      now
     );
+    const { state } = result;
+    let { nextReviewAt } = result;
 
-    // Calculate next review time
-    const nextReviewAt = new Date();
-    nextReviewAt.setHours(nextReviewAt.getHours() + nextInterval);
+    // Spread review intervals so cards answered together don't all come due together
+    if (state.learningState === 'review') {
+      state.reviewInterval = await this.fuzzInterval(userId, state.reviewInterval, now, options.maxInterval);
+      nextReviewAt = addHours(now, state.reviewInterval);
+    }
 
-    // Calculate mastery level
-    const masteryLevel = this.calculateMasteryLevel(
-      newCorrectAnswers,
-      newTotalAttempts,
-      consecutiveCorrect,
-      nextInterval
-    );
+    const consecutiveCorrect = state.consecutiveCorrect;
+    const nextInterval = state.reviewInterval;
+
+    // Forgetting a graduated card is a lapse; too many make it a leech
+    const isLapse = !!currentProgress && performance === 'again' &&
+      (currentProgress.learningState ?? 'review') === 'review';
+    const lapses = (currentProgress?.lapses || 0) + (isLapse ? 1 : 0);
+    const becameLeech = isLapse && leechService.isLeechThreshold(lapses, options.leechThreshold);
+
+    // Predicted recall at the mastery horizon, from the card's new state
+    const newMemoryState = {
+      learningState: state.learningState,
+      schedulerType: scheduler.type,
+      stability: state.stability,
+      reviewInterval: nextInterval,
+      lastAnsweredAt: now
+    };
+    const masteryLevel = this.getMastery(newMemoryState, now, options.desiredRetention).level;
 
     // Update progress
-    await progressService.updateProgress(
+    const updates: Partial<Progress> = {
+      correctAnswers: newCorrectAnswers,
+      totalAttempts: newTotalAttempts,
+      consecutiveCorrect,
+      lastAnsweredAt: now,
+      nextReviewAt,
+      reviewInterval: nextInterval,
+      masteryLevel,
+      isCompleted: this.isQuestionMastered(newMemoryState, now, options.desiredRetention),
+      lastPerformance: performance,
+      schedulerType: scheduler.type,
+      ...(state.easeFactor !== undefined && { easeFactor: state.easeFactor }),
+      ...(state.stability !== undefined && { stability: state.stability }),
+      ...(state.difficulty !== undefined && { difficulty: state.difficulty }),
+      learningState: state.learningState,
+      learningStep: state.learningStep,
+      lapses,
+      ...(becameLeech && leechService.getLeechUpdates(options)),
+      averageResponseTime: responseTime
+        ? this.calculateAverageResponseTime(
+            currentProgress?.averageResponseTime,
+            responseTime,
+            newTotalAttempts
+          )
+        : currentProgress?.averageResponseTime
+    };
+
+    // Count the card towards today's limits: introducing a new card or answering a review
+    const previousState = currentProgress ? currentProgress.learningState ?? 'review' : 'new';
+    const countedAs = previousState === 'new' ? 'newCards'
+      : previousState === 'review' ? 'reviews'
+      : undefined;
+    const day = getDayKey(now);
+
+    // Save the progress, review log entry and counters together
+    const reviewLogId = await this.store.commitAnswer({
       userId,
       questionId,
       topicId,
-      {
-        correctAnswers: newCorrectAnswers,
-        totalAttempts: newTotalAttempts,
-        consecutiveCorrect,
-        lastAnsweredAt: new Date(),
-        nextReviewAt,
-        reviewInterval: nextInterval,
-        masteryLevel,
-        isCompleted: this.isQuestionMastered({
-          masteryLevel,
-          correctAnswers: newCorrectAnswers,
-          reviewInterval: nextInterval
-        } as Progress),
-        lastPerformance: performance,
-        averageResponseTime: responseTime
-          ? this.calculateAverageResponseTime(
-              currentProgress?.averageResponseTime,
-              responseTime,
-              newTotalAttempts
-            )
-          : currentProgress?.averageResponseTime
+      updates,
+      countedAs,
+      day,
+      reviewLog: {
+        userId,
+        questionId,
+        topicId,
+        sessionId,
+        grade: performance,
+        responseTime,
+        previousInterval: currentProgress?.reviewInterval || 0,
+        newInterval: nextInterval,
+        previousLearningState: previousState,
+        previousDueAt: currentProgress?.nextReviewAt,
+        newDueAt: nextReviewAt,
+        reviewedAt: now,
+        schedulerType: scheduler.type,
+        schedulerVersion: scheduler.version,
+        vacationId: currentProgress?.vacationId
       }
-    );
+    });
+
+    return {
+      progress: {
+        ...currentProgress,
+        ...updates,
+        id: progressId,
+        userId,
+        questionId,
+        topicId
+      } as Progress,
+      undo: {
+        progressId,
+        topicId,
+        previousProgress: currentProgress,
+        reviewLogId,
+        countedAs,
+        day
+      }
+    };
+  }
+
+  /**
+   * Undo an answer: restore the card's previous progress, remove its review log
+   * entry and take it back off the topic's and user's counters
+   */
+  async undoAnswer(undo: AnswerUndo): Promise<void> {
+    await this.store.undoAnswer(undo);
+  }
+
+  /**
+   * Fuzz a review interval: long intervals move to the day in the fuzz range with
+   * the fewest cards already due, shorter ones to a random point in the range.
+   * The result never exceeds `maxInterval`.
+   */
+  async fuzzInterval(
+    userId: string,
+    interval: number,
+    now: Date,
+    maxInterval: number = Infinity
+  ): Promise<number> {
+    const [min, max] = getFuzzRange(interval, maxInterval);
+    if (interval < LOAD_BALANCE_MIN_INTERVAL) {
+      return fuzzInterval(interval, this.random, maxInterval);
+    }
+
+    // Whole-day offsets that fall inside the fuzz range, which stops at the cap
+    const candidates: number[] = [];
+    for (let days = Math.ceil(min / 24); days * 24 <= max; days++) {
+      candidates.push(days * 24);
+    }
+    if (candidates.length < 2) {
+      return fuzzInterval(interval, this.random, maxInterval);
+    }
+
+    const rangeStart = getDayStart(addHours(now, candidates[0]));
+    const rangeEnd = addStudyDays(addHours(now, candidates[candidates.length - 1]), 1);
+
+    const dueInRange = await this.store.getProgressDueBetween(userId, rangeStart, rangeEnd);
+    const dueCounts = new Map<string, number>();
+    dueInRange.forEach(progress => {
+      const key = getDayKey(progress.nextReviewAt);
+      dueCounts.set(key, (dueCounts.get(key) || 0) + 1);
+    });
+
+    const load = (candidate: number) => dueCounts.get(getDayKey(addHours(now, candidate))) || 0;
+    const lowest = Math.min(...candidates.map(load));
+    const leastLoaded = candidates.filter(candidate => load(candidate) === lowest);
+
+    return leastLoaded[Math.floor(this.random() * leastLoaded.length)];
   }
 
   /**
@@ -290,5 +698,6 @@ export class SpacedRepetitionService {
   }
 }
 
-// Export singleton instance
+// Export singleton instance, working from the app's repositories, so answers
+// are recorded on the device and synced later
 export const spacedRepetitionService = new SpacedRepetitionService();
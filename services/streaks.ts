@@ -0,0 +1,63 @@
+import { addStudyDays, getDayKey } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+
+/**
+ * Study Streaks
+ * Consecutive study days with at least one review, counted on the user's
+ * study day boundary so a session after midnight extends the same day.
+ */
+
+export interface StudyStreak {
+  current: number;
+  longest: number;
+  studiedToday: boolean;
+}
+
+export class StreakService {
+  constructor(private repositories: Repositories = appRepositories) {}
+
+  /**
+   * Current and longest streaks. A streak stays current until a whole study
+   * day passes without reviews, so it isn't lost before today's session.
+   */
+  async getStreak(userId: string, now: Date = new Date()): Promise<StudyStreak> {
+    const logs = await this.repositories.reviewLogs.getUserReviewLogs(userId);
+    return this.calculateStreak(logs.map(log => log.reviewedAt), now);
+  }
+
+  calculateStreak(reviewedAt: Date[], now: Date = new Date()): StudyStreak {
+    const days = new Set(reviewedAt.map(date => getDayKey(date)));
+    const today = getDayKey(now);
+    const studiedToday = days.has(today);
+
+    let current = 0;
+    let day = studiedToday ? now : addStudyDays(now, -1);
+    while (days.has(getDayKey(day))) {
+      current++;
+      day = addStudyDays(day, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    [...days].sort().forEach(key => {
+      run = previous && this.nextDayKey(previous) === key ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = key;
+    });
+
+    return { current, longest, studiedToday };
+  }
+
+  /**
+   * Calendar day after a YYYY-MM-DD key
+   */
+  private nextDayKey(key: string): string {
+    const date = new Date(`${key}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Export singleton instance
+export const streakService = new StreakService();
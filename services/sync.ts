@@ -0,0 +1,843 @@
+import {
+  AnswerCommit,
+  AnswerUndo,
+  BacklogRecovery,
+  DeckPreset,
+  DueQuestionsCursor,
+  DueQuestionsPage,
+  Progress,
+  Question,
+  SchedulerType,
+  Topic,
+  TrashEntry,
+  User
+} from '@/types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { DEMO_MODE } from '@/constants/Demo';
+import { firestoreRepositories, reviewLogService } from './firestore';
+import { LocalStore, localStore, parseStoredJson } from './localStore';
+import {
+  MemoryProgressRepository,
+  MemoryQuestionRepository,
+  MemoryTopicRepository,
+  MemoryTrashRepository,
+  MemoryUserRepository
+} from './memoryRepositories';
+import type {
+  NewQuestion,
+  NewTopic,
+  ProgressPatch,
+  ProgressRepository,
+  ProgressReschedule,
+  QuestionRepository,
+  Repositories,
+  SyncRepository,
+  TopicRepository,
+  TrashRepository,
+  UserRepository,
+  UserUpdates
+} from './repositories';
+import { SchedulingStore } from './schedulingStore';
+
+/**
+ * Sync
+ * Answers, profile changes, progress edits, new topics, questions and cards,
+ * and moves to and from the trash are saved to the local store first and
+ * queued in an outbox saved on the device. The outbox is sent to Firestore in order whenever the app is
+ * active, one write (an answer transaction for answers) per entry: a failed one is retried with
+ * exponential backoff, and nothing after it is sent until it goes through,
+ * so the server sees answers in the order they were made. Entries Firestore
+ * rejects outright are moved aside to the failed list instead of blocking
+ * the queue.
+ */
+
+export type OutboxOperation =
+  | { type: 'commitAnswer'; reviewId: string; commit: AnswerCommit }
+  | { type: 'undoAnswer'; undo: AnswerUndo }
+  | { type: 'updateUser'; userId: string; updates: UserUpdates }
+  | { type: 'setBacklogRecovery'; userId: string; recovery: BacklogRecovery | null }
+  | { type: 'patchProgress'; progressId: string; updates: ProgressPatch }
+  | { type: 'rescheduleProgress'; progressId: string; nextReviewAt: Date }
+  | { type: 'rescheduleAll'; reschedules: ProgressReschedule[] }
+  | { type: 'shiftAllForVacation'; reschedules: ProgressReschedule[]; vacationId: string | null }
+  | { type: 'clearVacationShift'; progressId: string }
+  | { type: 'setReviewState'; progressIds: string[] }
+  | { type: 'createTopic'; userId: string; topicId: string; topicData: NewTopic }
+  | { type: 'createQuestion'; userId: string; questionId: string; questionData: NewQuestion }
+  | { type: 'createNewCard'; userId: string; questionId: string; topicId: string }
+  | { type: 'trashTopic'; entryId: string; topicId: string; purgeAt: Date }
+  | { type: 'trashQuestion'; entryId: string; questionId: string; topicId: string; purgeAt: Date }
+  | { type: 'restoreTrash'; entryId: string; topicId: string }
+  | { type: 'purgeTrash'; entryId: string };
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  createdAt: Date;
+  attempts: number;
+  lastError?: string;
+}
+
+const OUTBOX_KEY = 'cognifai:outbox';
+const FAILED_KEY = 'cognifai:outbox-failed';
+
+// Retry delays double from the base up to the cap
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Firestore errors that won't go away by trying again
+const PERMANENT_ERRORS = ['permission-denied', 'not-found', 'invalid-argument', 'failed-precondition'];
+
+export class SyncService implements SyncRepository {
+  private outbox: OutboxEntry[] = [];
+  private failed: OutboxEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextEntryId = 0;
+
+  constructor(
+    private local: LocalStore = localStore,
+    private remote: Repositories = firestoreRepositories,
+    private demo: boolean = DEMO_MODE
+  ) {}
+
+  /**
+   * Send queued writes now and whenever the app comes back to the foreground
+   */
+  start(): () => void {
+    if (this.demo) return () => {};
+
+    this.flush();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') this.flush();
+    });
+
+    return () => {
+      subscription.remove();
+      if (this.retryTimer) clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    };
+  }
+
+  /**
+   * Queue a write for Firestore and try to send it
+   */
+  async enqueue(operation: OutboxOperation): Promise<void> {
+    if (this.demo) return;
+
+    await this.load();
+    this.outbox.push({
+      id: `${Date.now().toString(36)}-${(this.nextEntryId++).toString(36)}`,
+      operation,
+      createdAt: new Date(),
+      attempts: 0
+    });
+    await this.save();
+    this.flush();
+  }
+
+  /**
+   * Drop an answer that hasn't been sent yet. Returns false if it has
+   * already gone out.
+   */
+  async discardAnswer(reviewId: string): Promise<boolean> {
+    await this.load();
+    // The entry at the front may be on its way to Firestore
+    const index = this.outbox.findIndex((entry, position) =>
+      position > 0 && entry.operation.type === 'commitAnswer' && entry.operation.reviewId === reviewId
+    );
+    if (index < 0) return false;
+
+    this.outbox.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Send queued writes in order, stopping at the first one that fails.
+   * Resolves once the outbox is empty or a retry has been scheduled.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendQueued().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  async getPendingCount(): Promise<number> {
+    await this.load();
+    return this.outbox.length;
+  }
+
+  async getFailedWrites(): Promise<OutboxEntry[]> {
+    await this.load();
+    return [...this.failed];
+  }
+
+  /**
+   * Trash entries with a restore or purge still to be sent
+   */
+  async getPendingTrashRemovals(): Promise<Set<string>> {
+    await this.load();
+    return new Set(this.outbox.flatMap(({ operation }) =>
+      operation.type === 'restoreTrash' || operation.type === 'purgeTrash' ? [operation.entryId] : []
+    ));
+  }
+
+  /**
+   * Refresh the local copy of the user's data from Firestore. Cards, topics
+   * and profiles with writes still in the outbox keep their local state. Queued writes are
+   * sent in the background first. Cards saved before learning steps get
+   * their missing learning state, 'review', here and in Firestore.
+   */
+  async refresh(userId: string): Promise<void> {
+    this.flush();
+    const [user, topics, presets] = await Promise.all([
+      this.remote.users.getUser(userId),
+      this.remote.topics.getUserTopics(userId),
+      this.remote.presets.getUserPresets(userId)
+    ]);
+
+    const perTopic = await Promise.all(topics.map(topic => Promise.all([
+      this.remote.questions.getTopicQuestions(topic.id),
+      this.remote.progress.getTopicProgress(userId, topic.id)
+    ])));
+    const questions: Question[] = perTopic.flatMap(([topicQuestions]) => topicQuestions);
+    const progress: Progress[] = perTopic.flatMap(([, topicProgress]) =>
+      topicProgress.map(p => ({ ...p, id: `${userId}_${p.questionId}` }))
+    );
+
+    await this.load();
+    const pendingProgressIds = this.getPendingProgressIds();
+    const missingState = progress.filter(p => !p.learningState && !pendingProgressIds.has(p.id));
+    missingState.forEach(p => {
+      p.learningState = 'review';
+    });
+
+    await this.local.replaceUserData(
+      userId,
+      { user: this.hasPendingUserWrites(userId) ? null : user, topics, presets, questions, progress },
+      pendingProgressIds,
+      this.getPendingTopicIds()
+    );
+    if (missingState.length > 0) {
+      await this.enqueue({ type: 'setReviewState', progressIds: missingState.map(p => p.id) });
+    }
+  }
+
+  /**
+   * Read from the local copy, filling it from Firestore first if nothing has
+   * been synced for the user yet
+   */
+  async ensureLocalData(userId: string): Promise<void> {
+    await this.local.load();
+    if (!this.local.hasUserData(userId)) {
+      await this.refresh(userId);
+    }
+  }
+
+  private async sendQueued(): Promise<void> {
+    await this.load();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    while (this.outbox.length > 0) {
+      const entry = this.outbox[0];
+      try {
+        await this.send(entry.operation);
+        this.outbox.shift();
+      } catch (error) {
+        const code = (error as { code?: string }).code;
+        entry.attempts++;
+        entry.lastError = error instanceof Error ? error.message : String(error);
+
+        if (code && PERMANENT_ERRORS.includes(code)) {
+          console.error('Dropping write Firestore rejected:', entry.operation.type, error);
+          this.outbox.shift();
+          this.failed.push(entry);
+          await this.save();
+          continue;
+        }
+
+        const delay = Math.min(BASE_RETRY_DELAY * 2 ** (entry.attempts - 1), MAX_RETRY_DELAY);
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          this.flush();
+        }, delay);
+        await this.save();
+        return;
+      }
+      await this.save();
+    }
+  }
+
+  private async send(operation: OutboxOperation): Promise<void> {
+    switch (operation.type) {
+      case 'commitAnswer':
+        await this.remote.scheduling.commitAnswer(operation.commit, operation.reviewId);
+        return;
+      case 'undoAnswer':
+        return this.remote.scheduling.undoAnswer(operation.undo);
+      case 'updateUser':
+        return this.remote.users.updateUser(operation.userId, operation.updates);
+      case 'setBacklogRecovery':
+        return this.remote.users.setBacklogRecovery(operation.userId, operation.recovery);
+      case 'patchProgress':
+        return this.remote.progress.patchProgress(operation.progressId, operation.updates);
+      case 'rescheduleProgress':
+        return this.remote.progress.rescheduleProgress(operation.progressId, operation.nextReviewAt);
+      case 'rescheduleAll':
+        return this.remote.progress.rescheduleAll(operation.reschedules);
+      case 'shiftAllForVacation':
+        return this.remote.progress.shiftAllForVacation(operation.reschedules, operation.vacationId);
+      case 'clearVacationShift':
+        return this.remote.progress.clearVacationShift(operation.progressId);
+      case 'setReviewState':
+        return this.remote.progress.setReviewState(operation.progressIds);
+      case 'createTopic':
+        await this.remote.topics.createTopic(operation.userId, operation.topicData, operation.topicId);
+        return;
+      case 'createQuestion':
+        await this.remote.questions.createQuestion(operation.userId, operation.questionData, operation.questionId);
+        return;
+      case 'createNewCard':
+        return this.remote.progress.createNewCard(operation.userId, operation.questionId, operation.topicId);
+      case 'trashTopic':
+        await this.remote.trash.trashTopic(operation.topicId, operation.purgeAt, operation.entryId);
+        return;
+      case 'trashQuestion':
+        await this.remote.trash.trashQuestion(operation.questionId, operation.purgeAt, operation.entryId);
+        return;
+      case 'restoreTrash':
+        return this.remote.trash.restore(operation.entryId);
+      case 'purgeTrash':
+        return this.remote.trash.purge(operation.entryId);
+    }
+  }
+
+  private getPendingProgressIds(): Set<string> {
+    return new Set(this.outbox.flatMap(({ operation }) => {
+      switch (operation.type) {
+        case 'commitAnswer':
+          return [`${operation.commit.userId}_${operation.commit.questionId}`];
+        case 'undoAnswer':
+          return [operation.undo.progressId];
+        case 'rescheduleAll':
+        case 'shiftAllForVacation':
+          return operation.reschedules.map(({ progressId }) => progressId);
+        case 'setReviewState':
+          return operation.progressIds;
+        case 'patchProgress':
+        case 'rescheduleProgress':
+        case 'clearVacationShift':
+          return [operation.progressId];
+        default:
+          return [];
+      }
+    }));
+  }
+
+  // Topics whose questions or cards are being added, trashed or restored
+  private getPendingTopicIds(): Set<string> {
+    return new Set(this.outbox.flatMap(({ operation }) => {
+      switch (operation.type) {
+        case 'createTopic':
+        case 'createNewCard':
+        case 'trashTopic':
+        case 'trashQuestion':
+        case 'restoreTrash':
+          return [operation.topicId];
+        case 'createQuestion':
+          return [operation.questionData.topicId];
+        default:
+          return [];
+      }
+    }));
+  }
+
+  private hasPendingUserWrites(userId: string): boolean {
+    return this.outbox.some(({ operation }) =>
+      (operation.type === 'updateUser' || operation.type === 'setBacklogRecovery') && operation.userId === userId
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const [[, outbox], [, failed]] = await AsyncStorage.multiGet([OUTBOX_KEY, FAILED_KEY]);
+        this.outbox = outbox ? parseStoredJson<OutboxEntry[]>(outbox) : [];
+        this.failed = failed ? parseStoredJson<OutboxEntry[]>(failed) : [];
+      })();
+    }
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.multiSet([
+        [OUTBOX_KEY, JSON.stringify(this.outbox)],
+        [FAILED_KEY, JSON.stringify(this.failed)]
+      ]);
+    } catch (error) {
+      console.error('Failed to save outbox:', error);
+    }
+  }
+}
+
+/**
+ * The scheduling store used by the app: reads and writes go to the local
+ * store, and every write is queued for Firestore
+ */
+export class OfflineSchedulingStore implements SchedulingStore {
+  constructor(
+    private local: LocalStore = localStore,
+    private sync: SyncService = syncService,
+    private remote: Repositories = firestoreRepositories
+  ) {}
+
+  async getUser(userId: string): Promise<User | null> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getUser(userId);
+  }
+
+  async getTopic(topicId: string): Promise<Topic | null> {
+    await this.local.load();
+    return (await this.local.getTopic(topicId)) ?? this.fetchMissing(() => this.remote.topics.getTopic(topicId));
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getUserTopics(userId);
+  }
+
+  async getPreset(presetId: string): Promise<DeckPreset | null> {
+    await this.local.load();
+    return (await this.local.getPreset(presetId)) ?? this.fetchMissing(() => this.remote.presets.getPreset(presetId));
+  }
+
+  async getUserPresets(userId: string): Promise<DeckPreset[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getUserPresets(userId);
+  }
+
+  async getProgress(progressId: string): Promise<Progress | null> {
+    await this.local.load();
+    return (await this.local.getProgress(progressId)) ??
+      this.fetchMissing(() => this.remote.progress.getProgress(progressId));
+  }
+
+  async getDueQuestions(userId: string, until: Date): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getDueQuestions(userId, until);
+  }
+
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getNewCards(userId, topicId, count);
+  }
+
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getProgressDueBetween(userId, start, end);
+  }
+
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    await this.local.load();
+    await this.local.patchProgress(progressId, updates);
+    await this.local.persist('progress');
+    await this.sync.enqueue({ type: 'patchProgress', progressId, updates });
+  }
+
+  // The review ID is picked now so the same one is used locally and in Firestore
+  async commitAnswer(commit: AnswerCommit, reviewId: string = reviewLogService.createReviewLogId()): Promise<string> {
+    await this.local.load();
+    await this.local.commitAnswer(commit, reviewId);
+    await this.local.persist('progress', 'topics', 'users');
+    await this.sync.enqueue({ type: 'commitAnswer', reviewId, commit });
+    return reviewId;
+  }
+
+  async undoAnswer(undo: AnswerUndo): Promise<void> {
+    await this.local.load();
+    await this.local.undoAnswer(undo);
+    await this.local.persist('progress', 'topics', 'users');
+    if (!(await this.sync.discardAnswer(undo.reviewLogId))) {
+      await this.sync.enqueue({ type: 'undoAnswer', undo });
+    }
+  }
+
+  /**
+   * Look up something the local copy doesn't have yet, treating a failed
+   * lookup while offline as not found
+   */
+  private async fetchMissing<T>(fetch: () => Promise<T | null>): Promise<T | null> {
+    try {
+      return await fetch();
+    } catch (error) {
+      console.warn('Not available offline:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * A user's profile read from the local store, with changes saved there first
+ * and queued for Firestore
+ */
+export class OfflineUserRepository implements UserRepository {
+  private local: MemoryUserRepository;
+
+  constructor(
+    store: LocalStore = localStore,
+    private sync: SyncService = syncService
+  ) {
+    this.local = new MemoryUserRepository(store, store.repositoryHooks);
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getUser(userId);
+  }
+
+  async updateUser(userId: string, updates: UserUpdates): Promise<void> {
+    await this.local.updateUser(userId, updates);
+    await this.sync.enqueue({ type: 'updateUser', userId, updates });
+  }
+
+  async setBacklogRecovery(userId: string, recovery: BacklogRecovery | null): Promise<void> {
+    await this.local.setBacklogRecovery(userId, recovery);
+    await this.sync.enqueue({ type: 'setBacklogRecovery', userId, recovery });
+  }
+}
+
+/**
+ * Topics read from the local store, falling back to Firestore for one the
+ * device hasn't seen yet. New topics are saved there first and queued for
+ * Firestore; changes to settings go to Firestore.
+ */
+export class OfflineTopicRepository implements TopicRepository {
+  private local: MemoryTopicRepository;
+
+  constructor(
+    private remote: TopicRepository = firestoreRepositories.topics,
+    private store: LocalStore = localStore,
+    private sync: SyncService = syncService
+  ) {
+    this.local = new MemoryTopicRepository(store, store.repositoryHooks);
+  }
+
+  async createTopic(userId: string, topicData: NewTopic, topicId?: string): Promise<string> {
+    const id = await this.local.createTopic(userId, topicData, topicId);
+    await this.sync.enqueue({ type: 'createTopic', userId, topicId: id, topicData });
+    return id;
+  }
+
+  async getUserTopics(userId: string): Promise<Topic[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getUserTopics(userId);
+  }
+
+  async getTopic(topicId: string): Promise<Topic | null> {
+    return (await this.local.getTopic(topicId)) ?? this.remote.getTopic(topicId);
+  }
+
+  updateTopic(topicId: string, updates: Partial<Topic>): Promise<void> {
+    return this.remote.updateTopic(topicId, updates);
+  }
+
+  setDesiredRetention(topicId: string, desiredRetention: number | null): Promise<void> {
+    return this.remote.setDesiredRetention(topicId, desiredRetention);
+  }
+
+  setPriority(topicId: string, priority: number | null): Promise<void> {
+    return this.remote.setPriority(topicId, priority);
+  }
+
+  setSchedulerType(topicId: string, schedulerType: SchedulerType | null): Promise<void> {
+    return this.remote.setSchedulerType(topicId, schedulerType);
+  }
+
+  incrementDailyCount(topicId: string, day: string, kind: 'newCards' | 'reviews', amount?: number): Promise<void> {
+    return this.remote.incrementDailyCount(topicId, day, kind, amount);
+  }
+
+  deleteTopic(topicId: string): Promise<void> {
+    return this.remote.deleteTopic(topicId);
+  }
+}
+
+/**
+ * Questions read from the local store, falling back to Firestore for ones
+ * the device hasn't seen yet. New questions and their cards are saved there
+ * first and queued for Firestore; edits go to Firestore.
+ */
+export class OfflineQuestionRepository implements QuestionRepository {
+  private local: MemoryQuestionRepository;
+
+  constructor(
+    private remote: QuestionRepository = firestoreRepositories.questions,
+    store: LocalStore = localStore,
+    private sync: SyncService = syncService
+  ) {
+    const hooks = store.repositoryHooks;
+    this.local = new MemoryQuestionRepository(
+      store,
+      new MemoryProgressRepository(store, hooks),
+      new MemoryTopicRepository(store, hooks),
+      hooks
+    );
+  }
+
+  async createQuestion(userId: string, questionData: NewQuestion, questionId?: string): Promise<string> {
+    const id = await this.local.createQuestion(userId, questionData, questionId);
+    await this.sync.enqueue({ type: 'createQuestion', userId, questionId: id, questionData });
+    return id;
+  }
+
+  async getTopicQuestions(topicId: string): Promise<Question[]> {
+    const questions = await this.local.getTopicQuestions(topicId);
+    return questions.length > 0 ? questions : this.remote.getTopicQuestions(topicId);
+  }
+
+  async getQuestion(questionId: string): Promise<Question | null> {
+    return (await this.local.getQuestion(questionId)) ?? this.remote.getQuestion(questionId);
+  }
+
+  updateQuestion(questionId: string, updates: Partial<Question>): Promise<void> {
+    return this.remote.updateQuestion(questionId, updates);
+  }
+
+  deleteQuestion(questionId: string): Promise<void> {
+    return this.remote.deleteQuestion(questionId);
+  }
+
+  updateTopicQuestionCount(topicId: string): Promise<void> {
+    return this.remote.updateTopicQuestionCount(topicId);
+  }
+}
+
+/**
+ * Moves to and from the trash made in the local store first and queued for
+ * Firestore. The trash lists entries from both, so ones made on another
+ * device show up too; those are restored straight from Firestore, as only
+ * it holds what they contain.
+ */
+export class OfflineTrashRepository implements TrashRepository {
+  private local: MemoryTrashRepository;
+
+  constructor(
+    private remote: TrashRepository = firestoreRepositories.trash,
+    private store: LocalStore = localStore,
+    private sync: SyncService = syncService
+  ) {
+    const hooks = store.repositoryHooks;
+    const questions = new MemoryQuestionRepository(
+      store,
+      new MemoryProgressRepository(store, hooks),
+      new MemoryTopicRepository(store, hooks),
+      hooks
+    );
+    this.local = new MemoryTrashRepository(store, questions, hooks);
+  }
+
+  async trashTopic(topicId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    const entry = await this.local.trashTopic(topicId, purgeAt, entryId);
+    await this.sync.enqueue({ type: 'trashTopic', entryId: entry.id, topicId, purgeAt });
+    return entry;
+  }
+
+  async trashQuestion(questionId: string, purgeAt: Date, entryId?: string): Promise<TrashEntry> {
+    const entry = await this.local.trashQuestion(questionId, purgeAt, entryId);
+    await this.sync.enqueue({ type: 'trashQuestion', entryId: entry.id, questionId, topicId: entry.topicId, purgeAt });
+    return entry;
+  }
+
+  async getUserTrash(userId: string): Promise<TrashEntry[]> {
+    return this.merge(await this.local.getUserTrash(userId), () => this.remote.getUserTrash(userId));
+  }
+
+  async getExpiredTrash(userId: string, now: Date = new Date()): Promise<TrashEntry[]> {
+    return this.merge(await this.local.getExpiredTrash(userId, now), () => this.remote.getExpiredTrash(userId, now));
+  }
+
+  async restore(entryId: string): Promise<void> {
+    await this.store.load();
+    const trashed = this.store.trash.get(entryId);
+    if (!trashed) return this.remote.restore(entryId);
+
+    await this.local.restore(entryId);
+    await this.sync.enqueue({ type: 'restoreTrash', entryId, topicId: trashed.entry.topicId });
+  }
+
+  async purge(entryId: string): Promise<void> {
+    await this.local.purge(entryId);
+    await this.sync.enqueue({ type: 'purgeTrash', entryId });
+  }
+
+  /**
+   * Add Firestore's entries to the local ones, leaving out any with a
+   * restore or purge still to be sent. Most recently deleted first.
+   */
+  private async merge(local: TrashEntry[], fetchRemote: () => Promise<TrashEntry[]>): Promise<TrashEntry[]> {
+    let remote: TrashEntry[] = [];
+    try {
+      remote = await fetchRemote();
+    } catch (error) {
+      console.warn('Listing the trash from the local copy:', error);
+    }
+
+    const removed = await this.sync.getPendingTrashRemovals();
+    const localIds = new Set(local.map(entry => entry.id));
+    return [...local, ...remote.filter(entry => !localIds.has(entry.id) && !removed.has(entry.id))]
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+}
+
+/**
+ * Progress read from the local store where it answers the query, with new
+ * cards and edits to existing ones saved there first and queued for
+ * Firestore. Paged due queries and whole-record writes go to Firestore, and
+ * so do due counts once nothing is left to send.
+ */
+export class OfflineProgressRepository implements ProgressRepository {
+  private local: MemoryProgressRepository;
+
+  constructor(
+    private remote: ProgressRepository = firestoreRepositories.progress,
+    private store: LocalStore = localStore,
+    private sync: SyncService = syncService
+  ) {
+    this.local = new MemoryProgressRepository(store, store.repositoryHooks);
+  }
+
+  async createNewCard(userId: string, questionId: string, topicId: string): Promise<void> {
+    await this.local.createNewCard(userId, questionId, topicId);
+    await this.sync.enqueue({ type: 'createNewCard', userId, questionId, topicId });
+  }
+
+  async getNewCards(userId: string, topicId: string, count: number): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getNewCards(userId, topicId, count);
+  }
+
+  async getTopicProgress(userId: string, topicId: string): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getTopicProgress(userId, topicId);
+  }
+
+  getDueQuestionsPage(
+    userId: string,
+    until?: Date,
+    pageSize?: number,
+    cursor?: DueQuestionsCursor | null
+  ): Promise<DueQuestionsPage> {
+    return this.remote.getDueQuestionsPage(userId, until, pageSize, cursor);
+  }
+
+  async getDueQuestions(userId: string, until?: Date): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getDueQuestions(userId, until);
+  }
+
+  /**
+   * Count cards due by `until`: on the server once every queued write has
+   * gone out, from the local copy until then or while offline
+   */
+  async countDueQuestions(userId: string, until: Date = new Date()): Promise<number> {
+    if ((await this.sync.getPendingCount()) === 0) {
+      try {
+        return await this.remote.countDueQuestions(userId, until);
+      } catch (error) {
+        console.warn('Counting due cards from the local copy:', error);
+      }
+    }
+
+    return (await this.getDueQuestions(userId, until)).length;
+  }
+
+  async getProgressDueBetween(userId: string, start: Date, end: Date): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getProgressDueBetween(userId, start, end);
+  }
+
+  async getLeeches(userId: string): Promise<Progress[]> {
+    await this.sync.ensureLocalData(userId);
+    return this.local.getLeeches(userId);
+  }
+
+  async getProgress(progressId: string): Promise<Progress | null> {
+    return (await this.local.getProgress(progressId)) ?? this.remote.getProgress(progressId);
+  }
+
+  updateProgress(userId: string, questionId: string, topicId: string, progressData: Partial<Progress>): Promise<void> {
+    return this.remote.updateProgress(userId, questionId, topicId, progressData);
+  }
+
+  async patchProgress(progressId: string, updates: ProgressPatch): Promise<void> {
+    await this.local.patchProgress(progressId, updates);
+    await this.sync.enqueue({ type: 'patchProgress', progressId, updates });
+  }
+
+  async rescheduleProgress(progressId: string, nextReviewAt: Date): Promise<void> {
+    await this.local.rescheduleProgress(progressId, nextReviewAt);
+    await this.sync.enqueue({ type: 'rescheduleProgress', progressId, nextReviewAt });
+  }
+
+  async rescheduleAll(reschedules: ProgressReschedule[]): Promise<void> {
+    await this.local.rescheduleAll(reschedules);
+    await this.sync.enqueue({ type: 'rescheduleAll', reschedules });
+  }
+
+  async shiftAllForVacation(reschedules: ProgressReschedule[], vacationId: string | null): Promise<void> {
+    await this.local.shiftAllForVacation(reschedules, vacationId);
+    await this.sync.enqueue({ type: 'shiftAllForVacation', reschedules, vacationId });
+  }
+
+  async clearVacationShift(progressId: string): Promise<void> {
+    await this.local.clearVacationShift(progressId);
+    await this.sync.enqueue({ type: 'clearVacationShift', progressId });
+  }
+
+  async setReviewState(progressIds: string[]): Promise<void> {
+    await this.local.setReviewState(progressIds);
+    await this.sync.enqueue({ type: 'setReviewState', progressIds });
+  }
+
+  restoreProgress(progressId: string, snapshot: Progress): Promise<void> {
+    return this.remote.restoreProgress(progressId, snapshot);
+  }
+
+  deleteProgress(progressId: string): Promise<void> {
+    return this.remote.deleteProgress(progressId);
+  }
+}
+
+// Export singleton instance
+export const syncService = new SyncService();
+
+/**
+ * Firestore repositories with profiles, progress, scheduling, topics,
+ * questions and the trash going through the local store and the outbox
+ */
+export function createOfflineRepositories(
+  remote: Repositories = firestoreRepositories,
+  store: LocalStore = localStore,
+  sync: SyncService = syncService
+): Repositories {
+  return {
+    ...remote,
+    users: new OfflineUserRepository(store, sync),
+    topics: new OfflineTopicRepository(remote.topics, store, sync),
+    questions: new OfflineQuestionRepository(remote.questions, store, sync),
+    progress: new OfflineProgressRepository(remote.progress, store, sync),
+    trash: new OfflineTrashRepository(remote.trash, store, sync),
+    scheduling: new OfflineSchedulingStore(store, sync, remote),
+    sync
+  };
+}
@@ -0,0 +1,80 @@
+import { TrashEntry } from '@/types';
+import { appRepositories, Repositories } from './repositories';
+
+/**
+ * Trash
+ * Deleting a topic or question moves it to the trash together with the
+ * questions and progress that depend on it. It can be restored until the
+ * user's retention period runs out, after which the purge job deletes it
+ * for good.
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class TrashService {
+  constructor(private repositories: Repositories = appRepositories) {}
+
+  /**
+   * Move a topic, its questions and their progress to the trash
+   */
+  async deleteTopic(userId: string, topicId: string): Promise<TrashEntry> {
+    return this.repositories.trash.trashTopic(topicId, await this.getPurgeDate(userId));
+  }
+
+  /**
+   * Move a question and its progress to the trash
+   */
+  async deleteQuestion(userId: string, questionId: string): Promise<TrashEntry> {
+    return this.repositories.trash.trashQuestion(questionId, await this.getPurgeDate(userId));
+  }
+
+  async getTrash(userId: string): Promise<TrashEntry[]> {
+    return this.repositories.trash.getUserTrash(userId);
+  }
+
+  /**
+   * Put a deleted topic or question back. A question whose topic is in the
+   * trash too can only come back after the topic.
+   */
+  async restore(entry: TrashEntry): Promise<void> {
+    await this.repositories.trash.restore(entry.id);
+  }
+
+  /**
+   * Delete a trash entry for good without waiting for the purge job
+   */
+  async deleteForever(entry: TrashEntry): Promise<void> {
+    await this.repositories.trash.purge(entry.id);
+  }
+
+  /**
+   * Purge job: delete everything past its retention period for good. An
+   * entry that fails is left for the next run. Returns how many were purged.
+   */
+  async purgeExpired(userId: string, now: Date = new Date()): Promise<number> {
+    const expired = await this.repositories.trash.getExpiredTrash(userId, now);
+    let purged = 0;
+
+    for (const entry of expired) {
+      try {
+        await this.repositories.trash.purge(entry.id);
+        purged++;
+      } catch (error) {
+        console.error(`Error purging trash entry ${entry.id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  private async getPurgeDate(userId: string): Promise<Date> {
+    const user = await this.repositories.users.getUser(userId);
+    const days = user?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    return new Date(Date.now() + days * DAY);
+  }
+}
+
+// Export singleton instance
+export const trashService = new TrashService();
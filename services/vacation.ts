@@ -0,0 +1,151 @@
+import { Progress, Vacation, VacationShift } from '@/types';
+import { addStudyDays, getDayStart } from './dayBoundary';
+import { appRepositories, Repositories } from './repositories';
+import { DEFAULT_CONFIG, SpacedRepetitionService } from './spacedRepetition';
+
+/**
+ * Vacation Mode
+ * Reviews that would come due while the user is away are moved out of the
+ * way: cards that will still be remembered on return are postponed and spread
+ * over the first days back; the rest are brought forward so they can be
+ * reviewed before leaving. Each move is recorded on the vacation, and cards
+ * keep the vacation's ID until their next answer so the review log can tell
+ * a shifted due date from a missed one.
+ */
+
+// How far below its target recall a card may drop while postponed
+const POSTPONE_TOLERANCE = 0.1;
+// Postponed cards are spread over at most this many days after returning
+const MAX_RETURN_SPREAD_DAYS = 7;
+
+export class VacationService {
+  private scheduling: SpacedRepetitionService;
+
+  constructor(private repositories: Repositories = appRepositories) {
+    this.scheduling = new SpacedRepetitionService(DEFAULT_CONFIG, repositories.scheduling);
+  }
+
+  /**
+   * Start a vacation on the study day of `firstDay` for `days` study days and
+   * move the reviews that fall inside it
+   */
+  async scheduleVacation(
+    userId: string,
+    firstDay: Date,
+    days: number,
+    now: Date = new Date()
+  ): Promise<Vacation> {
+    if (days < 1) {
+      throw new Error('A vacation must last at least one day');
+    }
+
+    const startsAt = getDayStart(firstDay);
+    const endsAt = getDayStart(addStudyDays(firstDay, days));
+    if (endsAt <= now) {
+      throw new Error('Vacation has already ended');
+    }
+
+    const vacations = await this.repositories.vacations.getUserVacations(userId);
+    if (vacations.some(vacation => vacation.startsAt < endsAt && startsAt < vacation.endsAt)) {
+      throw new Error('Vacation overlaps another one');
+    }
+
+    const shifts = await this.planShifts(userId, startsAt, endsAt, days, now);
+    const vacation = { userId, startsAt, endsAt, shifts };
+    const vacationId = await this.repositories.vacations.createVacation(vacation);
+
+    await this.repositories.progress.shiftAllForVacation(
+      shifts.map(shift => ({ progressId: `${userId}_${shift.questionId}`, nextReviewAt: shift.newDueAt })),
+      vacationId
+    );
+
+    return { ...vacation, id: vacationId, createdAt: now };
+  }
+
+  /**
+   * Cancel a vacation, moving cards that haven't been answered since back to
+   * their original due dates
+   */
+  async cancelVacation(vacation: Vacation): Promise<void> {
+    const moved = await Promise.all(vacation.shifts.map(async shift => {
+      const progressId = `${vacation.userId}_${shift.questionId}`;
+      const progress = await this.repositories.progress.getProgress(progressId);
+      return progress?.vacationId === vacation.id ? [{ progressId, nextReviewAt: shift.originalDueAt }] : [];
+    }));
+
+    await this.repositories.progress.shiftAllForVacation(moved.flat(), null);
+    await this.repositories.vacations.deleteVacation(vacation.id);
+  }
+
+  /**
+   * Vacations that haven't ended yet
+   */
+  async getUpcomingVacations(userId: string, now: Date = new Date()): Promise<Vacation[]> {
+    const vacations = await this.repositories.vacations.getUserVacations(userId);
+    return vacations.filter(vacation => vacation.endsAt > now);
+  }
+
+  /**
+   * Whether a moment falls inside any of the given vacations
+   */
+  isOnVacation(vacations: Vacation[], date: Date): boolean {
+    return vacations.some(vacation => date >= vacation.startsAt && date < vacation.endsAt);
+  }
+
+  /**
+   * Decide where each card due during the vacation goes. Cards predicted to
+   * stay near their target recall until the return day are postponed, most at
+   * risk first; the others are due right away if there's time before leaving.
+   */
+  private async planShifts(
+    userId: string,
+    startsAt: Date,
+    endsAt: Date,
+    days: number,
+    now: Date
+  ): Promise<VacationShift[]> {
+    const windowStart = startsAt > now ? startsAt : now;
+    const due = (await this.repositories.progress.getProgressDueBetween(userId, windowStart, endsAt)).filter(
+      p => p.learningState !== 'new' && !p.suspended && p.nextReviewAt < endsAt
+    );
+
+    const targets = new Map<string, number>();
+    for (const topicId of new Set(due.map(p => p.topicId))) {
+      const { options } = await this.scheduling.resolveTopicSettings(userId, topicId);
+      targets.set(topicId, options.desiredRetention);
+    }
+
+    const canPreReview = startsAt > now;
+    const preReview: Progress[] = [];
+    const postpone: Progress[] = [];
+    due.forEach(progress => {
+      const recallOnReturn = this.scheduling.getRetrievability(progress, endsAt);
+      const keepsUp = recallOnReturn >= targets.get(progress.topicId)! - POSTPONE_TOLERANCE;
+      (keepsUp || !canPreReview ? postpone : preReview).push(progress);
+    });
+
+    postpone.sort((a, b) =>
+      this.scheduling.getRetrievability(a, endsAt) - this.scheduling.getRetrievability(b, endsAt)
+    );
+    const spreadDays = Math.min(Math.max(Math.ceil(days / 2), 1), MAX_RETURN_SPREAD_DAYS);
+    const perDay = Math.ceil(postpone.length / spreadDays);
+
+    const toShift = (progress: Progress, newDueAt: Date, preReviewed: boolean): VacationShift => ({
+      questionId: progress.questionId,
+      topicId: progress.topicId,
+      originalDueAt: progress.nextReviewAt,
+      newDueAt,
+      preReviewed
+    });
+
+    return [
+      ...preReview.map(progress => toShift(progress, now, true)),
+      ...postpone.map((progress, index) =>
+        toShift(progress, getDayStart(addStudyDays(endsAt, Math.floor(index / perDay))), false)
+      )
+    ];
+  }
+}
+
+// Export singleton instance
+export const vacationService = new VacationService();
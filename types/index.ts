@@ -1,11 +1,40 @@
 // Core data types for CognifAI
 
+export type ReviewGrade = 'easy' | 'good' | 'hard' | 'again';
+
+export type SchedulerType = 'sm2' | 'fsrs';
+
+export type LearningState = 'new' | 'learning' | 'review' | 'relearning';
+
+export type LeechAction = 'tag' | 'suspend' | 'rewrite';
+
+// How due cards from different topics are ordered in a review session
+export type ReviewOrder = 'due' | 'round_robin' | 'weighted' | 'random' | 'hardest_first';
+
 export interface User {
   id: string;
   email: string;
   displayName?: string;
   createdAt: Date;
   lastLoginAt: Date;
+  schedulerType?: SchedulerType; // Default scheduler for all topics
+  fsrsWeights?: number[]; // FSRS weights fitted to this user's review history
+  desiredRetention?: number; // Target recall (0-1) for topics without a preset
+  reviewOrder?: ReviewOrder; // Defaults to 'due'
+  backlogRecovery?: BacklogRecovery; // Set while an overdue pile is being worked through
+  totalReviews?: number; // Answers recorded, counted as each one is saved
+  correctReviews?: number; // Answers not graded 'again'
+  studySeconds?: number; // Sum of answer response times
+  trashRetentionDays?: number; // Days deleted topics and questions stay in the trash, default 30
+}
+
+// Overdue cards spread over several study days after a break
+export interface BacklogRecovery {
+  startedAt: Date;
+  endsAt: Date; // Start of the study day after the last backlog day
+  days: number;
+  cardCount: number;
+  progressIds: string[]; // The overdue cards, so cards due later aren't counted as backlog
 }
 
 export interface Topic {
@@ -18,6 +47,39 @@ export interface Topic {
   updatedAt: Date;
   questionCount: number;
   completedQuestions: number;
+  schedulerType?: SchedulerType; // Overrides the user's scheduler
+  presetId?: string; // Deck options preset, defaults apply when unset
+  desiredRetention?: number; // Overrides the preset's and user's target recall
+  priority?: number; // Share of the queue in the 'weighted' review order, default 1
+  dailyCounts?: DailyCounts; // Cards studied on the current study day
+}
+
+// Per-topic counters for daily limits, reset when the study day changes
+export interface DailyCounts {
+  day: string; // YYYY-MM-DD
+  newCards: number;
+  reviews: number;
+}
+
+// Scheduling options that can be shared between topics
+export interface DeckOptions {
+  maxInterval: number; // in hours
+  initialInterval: number; // in hours
+  learningSteps: number[]; // in minutes
+  relearningSteps: number[]; // in minutes, for lapsed cards
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  desiredRetention: number; // target probability of recall (0-1)
+  leechThreshold: number; // lapses before a card is treated as a leech
+  leechAction: LeechAction;
+}
+
+export interface DeckPreset extends DeckOptions {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Question {
@@ -42,13 +104,76 @@ export interface Progress {
   correctAnswers: number;
   totalAttempts: number;
   consecutiveCorrect?: number;
-  lastAnsweredAt: Date;
+  lastAnsweredAt: Date; // When the card was added, for new cards
   nextReviewAt: Date;
   reviewInterval: number; // in hours
-  masteryLevel: number; // 0-100
-  isCompleted: boolean;
-  lastPerformance?: 'easy' | 'good' | 'hard' | 'again';
+  easeFactor?: number; // SM-2 interval multiplier, adjusted by each answer
+  masteryLevel: number; // 0-100, predicted recall a week after the last answer
+  isCompleted: boolean; // Mastered, for statistics only; mastered cards are still reviewed
+  lastPerformance?: ReviewGrade;
   averageResponseTime?: number; // in seconds
+  schedulerType?: SchedulerType; // Scheduler that produced the current state
+  stability?: number; // FSRS memory stability in days
+  difficulty?: number; // FSRS difficulty (1-10)
+  learningState?: LearningState; // Missing on older documents, which are in review; syncing sets it
+  learningStep?: number; // Index into the learning or relearning steps
+  lapses?: number; // Times the card was forgotten after graduating
+  isLeech?: boolean; // Lapsed often enough to be flagged as a leech
+  rewritePending?: boolean; // A leech waiting for the rewrite job
+  suspended?: boolean; // Excluded from the review queue
+  vacationId?: string; // Vacation that moved the due date, until the next answer
+}
+
+// Position after the last card of a page of the due queue
+export interface DueQuestionsCursor {
+  nextReviewAt: Date;
+  progressId: string;
+}
+
+export interface DueQuestionsPage {
+  items: Progress[];
+  nextCursor: DueQuestionsCursor | null; // null on the last page
+}
+
+// Append-only record of a single answer
+export interface ReviewLog {
+  id: string;
+  userId: string;
+  questionId: string;
+  topicId: string;
+  sessionId?: string;
+  grade: ReviewGrade;
+  responseTime?: number; // in seconds
+  previousInterval: number; // in hours, 0 for a first review
+  newInterval: number; // in hours
+  previousLearningState?: LearningState; // 'new' when the answer introduced the card
+  previousDueAt?: Date;
+  newDueAt: Date;
+  reviewedAt: Date;
+  schedulerType: SchedulerType;
+  schedulerVersion: string;
+  vacationId?: string; // previousDueAt was moved by this vacation; see its shifts for the original
+}
+
+// Every write for one answer, saved together
+export interface AnswerCommit {
+  userId: string;
+  questionId: string;
+  topicId: string;
+  updates: Partial<Progress>; // Merged into the card's progress; its vacation mark is cleared
+  countedAs?: 'newCards' | 'reviews'; // Daily counter to increment
+  day: string; // Study day the answer counts towards
+  reviewLog: Omit<ReviewLog, 'id'>;
+}
+
+// What's needed to take an answer back
+export interface AnswerUndo {
+  progressId: string;
+  topicId: string;
+  previousProgress: Progress | null; // null when the answer created the record
+  reviewLogId: string;
+  countedAs?: 'newCards' | 'reviews'; // daily counter the answer incremented
+  day: string;
 }
 
 export interface ReviewSession {
@@ -63,6 +188,64 @@ export interface ReviewSession {
   duration: number; // in seconds
 }
 
+// A deleted topic or question, kept with its questions and progress until
+// it is restored or purged
+export interface TrashEntry {
+  id: string;
+  userId: string;
+  kind: 'topic' | 'question';
+  itemId: string; // The deleted topic or question
+  topicId: string; // The topic itself, or the question's topic
+  title: string; // Topic title or question text
+  itemCount: number; // Documents moved to the trash, the item included
+  deletedAt: Date;
+  purgeAt: Date; // Deleted for good once this has passed
+}
+
+// A question together with the user's progress on it
+export type StudyCard = Progress & { question: Question };
+
+// A search query saved as a study set
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: string; // See services/search.ts for the syntax
+  createdAt: Date;
+}
+
+// Days away from studying; reminders pause and due reviews are moved around them
+export interface Vacation {
+  id: string;
+  userId: string;
+  startsAt: Date; // Start of the first study day away
+  endsAt: Date; // Start of the study day back
+  shifts: VacationShift[];
+  createdAt: Date;
+}
+
+// A card whose due date was moved because it fell inside a vacation
+export interface VacationShift {
+  questionId: string;
+  topicId: string;
+  originalDueAt: Date;
+  newDueAt: Date;
+  preReviewed: boolean; // Brought forward to before the vacation rather than postponed
+}
+
+// Cards picked for a custom study session; unset fields match every card
+export interface CustomStudyFilter {
+  query?: string; // Search query, applied on top of the other fields
+  topicIds?: string[];
+  difficulties?: Question['difficulty'][];
+  cardStates?: LearningState[];
+  failedWithinDays?: number; // Only cards answered Again in the last N days
+}
+
+// What answering in a custom study session does to the real schedule:
+// 'none' leaves it untouched, 'preview' brings failed cards forward
+export type CustomStudyEffect = 'none' | 'preview';
+
 export interface NotificationSettings {
   id: string;
   userId: string;
@@ -70,7 +253,8 @@ export interface NotificationSettings {
   enableDailyGoals: boolean;
   enableStreakReminders: boolean;
   reminderTime: string; // HH:MM format
-  timezone: string;
+  timezone: string; // IANA name; day boundaries and reminder times use its wall clock
+  dayStartHour?: number; // Hour (0-23) the next study day starts at
 }
 
 export interface UserStats {